@@ -9,6 +9,7 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import NotFound from "./pages/NotFound";
 import VerifyCertificate from "./pages/VerifyCertificate";
+import VerifyTranscript from "./pages/VerifyTranscript";
 
 const queryClient = new QueryClient();
 
@@ -24,6 +25,7 @@ const App = () => (
             <Route path="/auth" element={<Auth />} />
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/verify-certificate" element={<VerifyCertificate />} />
+            <Route path="/verify-transcript" element={<VerifyTranscript />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
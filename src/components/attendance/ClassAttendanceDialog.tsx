@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { QrCode, Download, RefreshCw } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import QRCode from 'qrcode';
+
+interface ClassAttendanceDialogProps {
+  schedule: {
+    id: string;
+    course_id: string;
+    class_date: string;
+    start_time: string;
+    end_time: string;
+    topic: string | null;
+    courses: { course_code: string } | null;
+  } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ClassAttendanceDialog = ({ schedule, open, onOpenChange }: ClassAttendanceDialogProps) => {
+  const [qrCodeUrl, setQrCodeUrl] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) setQrCodeUrl('');
+  }, [open]);
+
+  const sessionName = schedule
+    ? schedule.topic || `${schedule.courses?.course_code || 'Class'} ${schedule.start_time.slice(0, 5)}`
+    : '';
+
+  const startAttendance = async () => {
+    if (!schedule) return;
+
+    setLoading(true);
+    try {
+      const code = crypto.randomUUID();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      // The database closes the session when the class ends; late and absent status come from the schedule
+      const { error } = await supabase
+        .from('qr_codes')
+        .insert({
+          code,
+          course_id: schedule.course_id,
+          session_name: sessionName,
+          session_date: schedule.class_date,
+          created_by: user?.id,
+          qr_type: 'course',
+          class_schedule_id: schedule.id,
+        });
+
+      if (error) throw error;
+
+      const qrCodeDataUrl = await QRCode.toDataURL(
+        JSON.stringify({ code, session_name: sessionName, location: false }),
+        { width: 300, margin: 2 }
+      );
+      setQrCodeUrl(qrCodeDataUrl);
+
+      toast({
+        title: "Attendance Started",
+        description: "Students can now scan the code to check in",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadQRCode = () => {
+    if (!qrCodeUrl) return;
+
+    const link = document.createElement('a');
+    link.download = `${sessionName || 'qr-code'}.png`;
+    link.href = qrCodeUrl;
+    link.click();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Class Attendance</DialogTitle>
+          <DialogDescription>
+            {schedule?.courses?.course_code} · {schedule && new Date(schedule.class_date).toLocaleDateString()}{' '}
+            {schedule?.start_time.slice(0, 5)} - {schedule?.end_time.slice(0, 5)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {qrCodeUrl ? (
+          <div className="text-center space-y-4">
+            <div className="bg-white p-4 rounded-lg shadow-sm inline-block">
+              <img src={qrCodeUrl} alt="QR Code" className="mx-auto" />
+            </div>
+            <p className="text-lg font-semibold">{sessionName}</p>
+            <p className="text-sm text-muted-foreground">
+              This code closes when the class ends at {schedule?.end_time.slice(0, 5)}.
+            </p>
+            <Button onClick={downloadQRCode} variant="outline">
+              <Download className="w-4 h-4 mr-2" />
+              Download QR Code
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Start an attendance session for <strong>{sessionName}</strong>. Check-ins after the class's
+              grace period are marked late, and enrolled students who do not check in are marked absent
+              once the class ends.
+            </p>
+            <Button onClick={startAttendance} disabled={loading} className="w-full">
+              {loading ? (
+                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <QrCode className="w-4 h-4 mr-2" />
+              )}
+              Start Attendance
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClassAttendanceDialog;
@@ -8,7 +8,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch';
 import { toast } from '@/hooks/use-toast';
 import QRCode from 'qrcode';
-import { QrCode, Download, RefreshCw, Globe } from 'lucide-react';
+import { format } from 'date-fns';
+import { QrCode, Download, RefreshCw, Globe, Timer, MapPin, Crosshair } from 'lucide-react';
 
 interface Course {
   id: string;
@@ -16,19 +17,147 @@ interface Course {
   course_name: string;
 }
 
+interface ScheduledClass {
+  id: string;
+  start_time: string;
+  end_time: string;
+  topic: string | null;
+}
+
+interface LiveSession {
+  id: string;
+  code: string;
+  session_name: string;
+  interval: number;
+  locationFence: boolean;
+}
+
+interface RotationToken {
+  token: string;
+  expires_in: number;
+}
+
+const QR_IMAGE_OPTIONS = {
+  width: 300,
+  margin: 2,
+  color: {
+    dark: '#000000',
+    light: '#FFFFFF',
+  },
+};
+
 const QRCodeGenerator = () => {
   const [courses, setCourses] = useState<Course[]>([]);
   const [selectedCourse, setSelectedCourse] = useState('');
+  const [scheduledClasses, setScheduledClasses] = useState<ScheduledClass[]>([]);
+  const [selectedSchedule, setSelectedSchedule] = useState('');
   const [sessionName, setSessionName] = useState('');
   const [qrCodeData, setQrCodeData] = useState('');
   const [qrCodeUrl, setQrCodeUrl] = useState('');
   const [loading, setLoading] = useState(false);
   const [isPermanent, setIsPermanent] = useState(false);
+  const [isLive, setIsLive] = useState(false);
+  const [rotationInterval, setRotationInterval] = useState('30');
+  const [liveSession, setLiveSession] = useState<LiveSession | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [restrictLocation, setRestrictLocation] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [fence, setFence] = useState({
+    latitude: '',
+    longitude: '',
+    radius: '100',
+    ipRange: '',
+    enforcement: 'reject',
+  });
 
   useEffect(() => {
     fetchCourses();
   }, []);
 
+  // Today's classes for the course, so check-ins can be timed against the schedule
+  useEffect(() => {
+    setSelectedSchedule('');
+    setScheduledClasses([]);
+    if (!selectedCourse) return;
+
+    const fetchScheduledClasses = async () => {
+      const { data, error } = await supabase
+        .from('class_schedules')
+        .select('id, start_time, end_time, topic')
+        .eq('course_id', selectedCourse)
+        .eq('class_date', format(new Date(), 'yyyy-MM-dd'))
+        .not('status', 'in', '(cancelled,postponed)')
+        .order('start_time');
+
+      if (error) {
+        console.error('Error fetching scheduled classes:', error);
+        return;
+      }
+      setScheduledClasses(data || []);
+    };
+
+    fetchScheduledClasses();
+  }, [selectedCourse]);
+
+  // Fetch a fresh token from the server at the start of every rotation window
+  useEffect(() => {
+    if (!liveSession) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const refreshToken = async () => {
+      const { data, error } = await supabase.rpc('get_qr_rotation_token', {
+        _qr_code_id: liveSession.id,
+      });
+      if (cancelled) return;
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Live Session Ended",
+          description: error.message,
+        });
+        setLiveSession(null);
+        setQrCodeUrl('');
+        setQrCodeData('');
+        return;
+      }
+
+      const { token, expires_in } = data as unknown as RotationToken;
+      const qrData = JSON.stringify({
+        code: liveSession.code,
+        token,
+        session_name: liveSession.session_name,
+        location: liveSession.locationFence,
+      });
+      const qrCodeDataUrl = await QRCode.toDataURL(qrData, QR_IMAGE_OPTIONS);
+      if (cancelled) return;
+
+      setQrCodeData(qrData);
+      setQrCodeUrl(qrCodeDataUrl);
+      setSecondsLeft(Math.ceil(expires_in));
+      timer = setTimeout(refreshToken, Math.max(expires_in, 1) * 1000);
+    };
+
+    refreshToken();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [liveSession]);
+
+  useEffect(() => {
+    if (!liveSession) return;
+
+    const countdown = setInterval(() => {
+      setSecondsLeft((seconds) => Math.max(seconds - 1, 0));
+    }, 1000);
+
+    return () => clearInterval(countdown);
+  }, [liveSession]);
+
   const fetchCourses = async () => {
     try {
       const { data, error } = await supabase
@@ -48,6 +177,46 @@ const QRCodeGenerator = () => {
     }
   };
 
+  const handleScheduleChange = (value: string) => {
+    const scheduledClass = scheduledClasses.find(c => c.id === value);
+    setSelectedSchedule(value === 'none' ? '' : value);
+    if (scheduledClass?.topic && !sessionName.trim()) {
+      setSessionName(scheduledClass.topic);
+    }
+  };
+
+  const fillCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({
+        variant: "destructive",
+        title: "Location Unavailable",
+        description: "This browser does not support geolocation",
+      });
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setFence((current) => ({
+          ...current,
+          latitude: position.coords.latitude.toFixed(6),
+          longitude: position.coords.longitude.toFixed(6),
+        }));
+        setLocating(false);
+      },
+      (error) => {
+        toast({
+          variant: "destructive",
+          title: "Location Error",
+          description: error.message,
+        });
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
   const generateQRCode = async () => {
     if (!isPermanent && (!selectedCourse || !sessionName.trim())) {
       toast({
@@ -67,6 +236,17 @@ const QRCodeGenerator = () => {
       return;
     }
 
+    const hasLocationFence = restrictLocation && fence.latitude !== '' && fence.longitude !== '';
+    const hasNetworkFence = restrictLocation && fence.ipRange.trim() !== '';
+    if (restrictLocation && !hasLocationFence && !hasNetworkFence) {
+      toast({
+        variant: "destructive",
+        title: "Missing Information",
+        description: "Set a location or an allowed IP range, or turn off the check-in restriction",
+      });
+      return;
+    }
+
     setLoading(true);
     try {
       // Create QR code record in database
@@ -76,9 +256,11 @@ const QRCodeGenerator = () => {
         expires_at.setHours(expires_at.getHours() + 2); // Expires in 2 hours
       }
 
+      const code = crypto.randomUUID();
+      const live = isLive && !isPermanent;
       const insertData: any = {
         session_name: sessionName,
-        code: crypto.randomUUID(),
+        code,
         qr_type: isPermanent ? 'general' : 'course',
         created_by: (await supabase.auth.getUser()).data.user?.id,
       };
@@ -86,33 +268,59 @@ const QRCodeGenerator = () => {
       if (!isPermanent) {
         insertData.course_id = selectedCourse;
         insertData.expires_at = expires_at!.toISOString();
+        if (selectedSchedule) {
+          insertData.class_schedule_id = selectedSchedule;
+        }
       }
 
+      if (live) {
+        insertData.rotation_interval_seconds = parseInt(rotationInterval);
+      }
+
+      if (hasLocationFence) {
+        insertData.location_latitude = parseFloat(fence.latitude);
+        insertData.location_longitude = parseFloat(fence.longitude);
+        insertData.location_radius_meters = parseInt(fence.radius) || 100;
+      }
+      if (hasNetworkFence) {
+        insertData.allowed_ip_range = fence.ipRange.trim();
+      }
+      if (restrictLocation) {
+        insertData.fence_enforcement = fence.enforcement;
+      }
+
+      // Session codes are not selectable from the client, so only the id is returned
       const { data, error } = await supabase
         .from('qr_codes')
         .insert(insertData)
-        .select()
+        .select('id')
         .single();
 
       if (error) throw error;
 
-      // Generate QR code image
+      if (live) {
+        setLiveSession({
+          id: data.id,
+          code,
+          session_name: sessionName,
+          interval: parseInt(rotationInterval),
+          locationFence: hasLocationFence,
+        });
+        toast({
+          title: "Live Session Started",
+          description: "The projected QR code will refresh automatically",
+        });
+        return;
+      }
+
+      // Generate QR code image; the secret code is validated server-side on check-in
       const qrData = JSON.stringify({
-        qr_code_id: data.id,
-        course_id: isPermanent ? null : selectedCourse,
+        code,
         session_name: sessionName,
-        qr_type: isPermanent ? 'general' : 'course',
-        expires_at: isPermanent ? null : expires_at!.toISOString(),
+        location: hasLocationFence,
       });
 
-      const qrCodeDataUrl = await QRCode.toDataURL(qrData, {
-        width: 300,
-        margin: 2,
-        color: {
-          dark: '#000000',
-          light: '#FFFFFF',
-        },
-      });
+      const qrCodeDataUrl = await QRCode.toDataURL(qrData, QR_IMAGE_OPTIONS);
 
       setQrCodeData(qrData);
       setQrCodeUrl(qrCodeDataUrl);
@@ -143,10 +351,15 @@ const QRCodeGenerator = () => {
 
   const resetForm = () => {
     setSelectedCourse('');
+    setSelectedSchedule('');
     setSessionName('');
     setQrCodeUrl('');
     setQrCodeData('');
     setIsPermanent(false);
+    setIsLive(false);
+    setLiveSession(null);
+    setRestrictLocation(false);
+    setFence({ latitude: '', longitude: '', radius: '100', ipRange: '', enforcement: 'reject' });
   };
 
   return (
@@ -176,6 +389,40 @@ const QRCodeGenerator = () => {
           </div>
         </div>
 
+        {!isPermanent && (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4 p-4 border border-dashed border-muted rounded-lg bg-muted/30">
+            <div className="flex items-center space-x-2 flex-1">
+              <Switch
+                id="live-mode"
+                checked={isLive}
+                onCheckedChange={setIsLive}
+                disabled={!!liveSession}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="live-mode" className="text-sm font-medium flex items-center gap-2">
+                  <Timer className="w-4 h-4" />
+                  Live Rotating QR Code
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Project a code that changes every few seconds so photos of it cannot be shared
+                </p>
+              </div>
+            </div>
+            {isLive && (
+              <Select value={rotationInterval} onValueChange={setRotationInterval} disabled={!!liveSession}>
+                <SelectTrigger className="bg-background sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="15">Every 15 seconds</SelectItem>
+                  <SelectItem value="30">Every 30 seconds</SelectItem>
+                  <SelectItem value="60">Every 60 seconds</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {!isPermanent && (
             <div className="space-y-2">
@@ -209,10 +456,117 @@ const QRCodeGenerator = () => {
               className="bg-background"
             />
           </div>
+          {!isPermanent && scheduledClasses.length > 0 && (
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="scheduled_class" className="text-sm font-medium">Scheduled Class (Optional)</Label>
+              <Select value={selectedSchedule || 'none'} onValueChange={handleScheduleChange}>
+                <SelectTrigger id="scheduled_class" className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not linked to a scheduled class</SelectItem>
+                  {scheduledClasses.map((scheduledClass) => (
+                    <SelectItem key={scheduledClass.id} value={scheduledClass.id}>
+                      {scheduledClass.start_time.slice(0, 5)} - {scheduledClass.end_time.slice(0, 5)}
+                      {scheduledClass.topic ? ` · ${scheduledClass.topic}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Check-ins after the class's grace period are marked late, and enrolled students who never check in are marked absent once it ends
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4 p-4 border border-dashed border-muted rounded-lg bg-muted/30">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="restrict-location"
+              checked={restrictLocation}
+              onCheckedChange={setRestrictLocation}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="restrict-location" className="text-sm font-medium flex items-center gap-2">
+                <MapPin className="w-4 h-4" />
+                Restrict Check-in Location
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Only accept check-ins near the classroom or from the campus network
+              </p>
+            </div>
+          </div>
+
+          {restrictLocation && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="fence_latitude" className="text-sm font-medium">Latitude</Label>
+                <Input
+                  id="fence_latitude"
+                  type="number"
+                  step="any"
+                  value={fence.latitude}
+                  onChange={(e) => setFence({ ...fence, latitude: e.target.value })}
+                  className="bg-background"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fence_longitude" className="text-sm font-medium">Longitude</Label>
+                <Input
+                  id="fence_longitude"
+                  type="number"
+                  step="any"
+                  value={fence.longitude}
+                  onChange={(e) => setFence({ ...fence, longitude: e.target.value })}
+                  className="bg-background"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fence_radius" className="text-sm font-medium">Radius (meters)</Label>
+                <Input
+                  id="fence_radius"
+                  type="number"
+                  min="10"
+                  value={fence.radius}
+                  onChange={(e) => setFence({ ...fence, radius: e.target.value })}
+                  className="bg-background"
+                />
+              </div>
+              <div className="md:col-span-3">
+                <Button type="button" variant="outline" size="sm" onClick={fillCurrentLocation} disabled={locating}>
+                  <Crosshair className="w-4 h-4 mr-2" />
+                  {locating ? 'Locating...' : 'Use My Current Location'}
+                </Button>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="fence_ip_range" className="text-sm font-medium">Allowed IP Range (Optional)</Label>
+                <Input
+                  id="fence_ip_range"
+                  placeholder="e.g., 203.0.113.0/24"
+                  value={fence.ipRange}
+                  onChange={(e) => setFence({ ...fence, ipRange: e.target.value })}
+                  className="bg-background font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fence_enforcement" className="text-sm font-medium">Outside the Fence</Label>
+                <Select value={fence.enforcement} onValueChange={(value) => setFence({ ...fence, enforcement: value })}>
+                  <SelectTrigger id="fence_enforcement" className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="reject">Reject check-in</SelectItem>
+                    <SelectItem value="flag">Accept and flag</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="flex gap-2">
-          <Button onClick={generateQRCode} disabled={loading} className="flex-1">
+          <Button onClick={generateQRCode} disabled={loading || !!liveSession} className="flex-1">
             {loading ? (
               <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
             ) : isPermanent ? (
@@ -220,10 +574,10 @@ const QRCodeGenerator = () => {
             ) : (
               <QrCode className="w-4 h-4 mr-2" />
             )}
-            Generate {isPermanent ? 'Permanent' : 'Temporary'} QR Code
+            {isPermanent ? 'Generate Permanent QR Code' : isLive ? 'Start Live Session' : 'Generate Temporary QR Code'}
           </Button>
           <Button variant="outline" onClick={resetForm}>
-            Reset
+            {liveSession ? 'End Session' : 'Reset'}
           </Button>
         </div>
 
@@ -252,7 +606,13 @@ const QRCodeGenerator = () => {
                   </p>
                 )}
               </div>
-              {isPermanent ? (
+              {liveSession ? (
+                <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md p-3">
+                  <p className="text-sm text-blue-800 dark:text-blue-200">
+                    🔄 Live code - refreshes every {liveSession.interval} seconds (next in {secondsLeft}s). Keep this screen projected.
+                  </p>
+                </div>
+              ) : isPermanent ? (
                 <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md p-3">
                   <p className="text-sm text-green-800 dark:text-green-200">
                     ♾️ This is a permanent QR code - it never expires and can be used by all staff and students
@@ -266,10 +626,12 @@ const QRCodeGenerator = () => {
                 </div>
               )}
             </div>
-            <Button onClick={downloadQRCode} variant="outline" className="w-full sm:w-auto">
-              <Download className="w-4 h-4 mr-2" />
-              Download QR Code
-            </Button>
+            {!liveSession && (
+              <Button onClick={downloadQRCode} variant="outline" className="w-full sm:w-auto">
+                <Download className="w-4 h-4 mr-2" />
+                Download QR Code
+              </Button>
+            )}
           </div>
         )}
       </CardContent>
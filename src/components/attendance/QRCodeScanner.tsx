@@ -9,18 +9,45 @@ import { Textarea } from '@/components/ui/textarea';
 import { toast } from '@/hooks/use-toast';
 import { Scan, CheckCircle, Clock, Camera, CameraOff } from 'lucide-react';
 
-interface AttendanceRecord {
-  id: string;
+interface MarkAttendanceResponse {
+  action: 'check_in' | 'check_out';
+  session_name: string;
   check_in_time: string;
-  check_out_time: string | null;
-  notes: string | null;
+  check_out_time?: string;
+  check_out_after?: string;
+  duration_hours?: number;
+  status?: string;
+  flagged: boolean;
+  flag_reason: string | null;
 }
 
+interface LastScanned {
+  session_name: string;
+  timestamp: string;
+  action: 'check_in' | 'check_out';
+  duration?: string;
+  flag_reason?: string | null;
+}
+
+// Location is sent with every scan so the server can check the session's geofence
+const getCurrentPosition = () =>
+  new Promise<GeolocationPosition | null>((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, () => resolve(null), {
+      enableHighAccuracy: true,
+      timeout: 10000,
+      maximumAge: 60000,
+    });
+  });
+
 const QRCodeScanner = () => {
   const [qrInput, setQrInput] = useState('');
   const [notes, setNotes] = useState('');
   const [loading, setLoading] = useState(false);
-  const [lastScanned, setLastScanned] = useState<any>(null);
+  const [lastScanned, setLastScanned] = useState<LastScanned | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [scanError, setScanError] = useState('');
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -90,224 +117,78 @@ const QRCodeScanner = () => {
       return;
     }
 
-    setLoading(true);
+    // QR codes carry a JSON payload with the session code; a bare code can also be pasted
+    let code: string | undefined = qrInput.trim();
+    let qrCodeId: string | undefined;
+    let token: string | undefined;
+    let needsLocation = true;
     try {
-      // Parse QR code data
-      let qrData;
-      try {
-        qrData = JSON.parse(qrInput);
-      } catch {
+      const qrData = JSON.parse(code);
+      if (typeof qrData?.code === 'string') {
+        code = qrData.code;
+        token = qrData.token;
+        // Codes without a location fence say so, so the scan doesn't wait on GPS
+        needsLocation = qrData.location !== false;
+      } else if (typeof qrData?.qr_code_id === 'string') {
+        // Codes printed before sessions had a secret code only carry the session id
+        code = undefined;
+        qrCodeId = qrData.qr_code_id;
+      } else {
         toast({
           variant: "destructive",
           title: "Invalid QR Code",
           description: "The QR code format is invalid",
         });
-        setLoading(false);
-        return;
-      }
-
-      // Check if QR code is still valid (only for temporary codes)
-      if (qrData.qr_type === 'course' && qrData.expires_at) {
-        const now = new Date();
-        const expiresAt = new Date(qrData.expires_at);
-        
-        if (now > expiresAt) {
-          toast({
-            variant: "destructive",
-            title: "QR Code Expired",
-            description: "This QR code has expired. Please get a new one.",
-          });
-          setLoading(false);
-          return;
-        }
-      }
-
-      // Get current user
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        toast({
-          variant: "destructive",
-          title: "Authentication Required",
-          description: "You must be logged in to mark attendance",
-        });
-        setLoading(false);
-        return;
-      }
-
-      // Get profile
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select('role')
-        .eq('id', user.id)
-        .single();
-
-      let attendeeData = null;
-      let attendeeType = '';
-
-      if (profileData?.role === 'student') {
-        const { data: studentData, error: studentError } = await supabase
-          .from('students')
-          .select('id')
-          .eq('user_id', user.id)
-          .single();
-
-        if (studentError || !studentData) {
-          toast({
-            variant: "destructive",
-            title: "Student Record Not Found",
-            description: "No student record found for your account",
-          });
-          setLoading(false);
-          return;
-        }
-        attendeeData = studentData;
-        attendeeType = 'student';
-      } else if (profileData?.role === 'staff' || profileData?.role === 'admin') {
-        const { data: staffData, error: staffError } = await supabase
-          .from('staff')
-          .select('id')
-          .eq('user_id', user.id)
-          .single();
-
-        if (staffError || !staffData) {
-          toast({
-            variant: "destructive",
-            title: "Staff Record Not Found",
-            description: "No staff record found for your account",
-          });
-          setLoading(false);
-          return;
-        }
-        attendeeData = staffData;
-        attendeeType = 'staff';
-      } else {
-        toast({
-          variant: "destructive",
-          title: "Invalid User Role",
-          description: "Only students and staff can mark attendance",
-        });
-        setLoading(false);
         return;
       }
+    } catch {
+      // Not JSON, treat the input as the raw session code
+    }
 
-      // Check for existing attendance record for today
-      const today = new Date().toISOString().split('T')[0];
-      const startOfDay = `${today}T00:00:00.000Z`;
-      const endOfDay = `${today}T23:59:59.999Z`;
-      
-      // Get existing attendance record with simplified approach
-      let existingRecord: AttendanceRecord | null = null;
-      
-      // For now, only students can use this feature since staff_id column doesn't exist yet
-      if (attendeeType !== 'student') {
-        toast({
-          variant: "destructive",
-          title: "Feature Not Available",
-          description: "Check-in/check-out is currently only available for students",
-        });
-        setLoading(false);
-        return;
-      }
-
-      try {
-        const { data: records } = await supabase
-          .from('attendance_records')
-          .select('id, check_in_time, check_out_time, notes')
-          .eq('qr_code_id', qrData.qr_code_id)
-          .eq('student_id', attendeeData.id)
-          .gte('check_in_time', startOfDay)
-          .lt('check_in_time', endOfDay);
-
-        if (records && records.length > 0) {
-          existingRecord = {
-            id: records[0].id,
-            check_in_time: records[0].check_in_time,
-            check_out_time: records[0].check_out_time,
-            notes: records[0].notes
-          };
-        }
-      } catch (error) {
-        console.log('Error checking existing records:', error);
-      }
-
-      if (existingRecord) {
-        // Check if it's been at least 3 hours since check-in
-        const checkInTime = new Date(existingRecord.check_in_time);
-        const now = new Date();
-        const hoursDiff = (now.getTime() - checkInTime.getTime()) / (1000 * 60 * 60);
-
-        if (existingRecord.check_out_time) {
-          toast({
-            variant: "destructive",
-            title: "Already Checked Out",
-            description: "You have already completed your attendance for today",
-          });
-          setLoading(false);
-          return;
-        }
-
-        if (hoursDiff < 3) {
-          toast({
-            variant: "destructive",
-            title: "Too Early to Check Out",
-            description: `You must wait at least 3 hours before checking out. ${(3 - hoursDiff).toFixed(1)} hours remaining.`,
-          });
-          setLoading(false);
-          return;
-        }
-
-        // Update existing record with check-out time
-        const { error: updateError } = await supabase
-          .from('attendance_records')
-          .update({ 
-            check_out_time: new Date().toISOString(),
-            notes: notes.trim() || existingRecord.notes 
-          })
-          .eq('id', existingRecord.id);
+    setLoading(true);
+    try {
+      const position = needsLocation ? await getCurrentPosition() : null;
+
+      const { data, error } = await supabase.rpc('mark_attendance', {
+        _code: code,
+        _qr_code_id: qrCodeId,
+        _notes: notes.trim() || undefined,
+        _token: token,
+        _latitude: position?.coords.latitude,
+        _longitude: position?.coords.longitude,
+        _accuracy: position?.coords.accuracy,
+      });
 
-        if (updateError) throw updateError;
+      if (error) throw error;
 
+      const result = data as unknown as MarkAttendanceResponse;
+      if (result.action === 'check_out') {
         setLastScanned({
-          session_name: qrData.session_name,
-          timestamp: new Date().toLocaleString(),
+          session_name: result.session_name,
+          timestamp: new Date(result.check_out_time!).toLocaleString(),
           action: 'check_out',
-          duration: `${hoursDiff.toFixed(1)} hours`,
+          duration: `${result.duration_hours} hours`,
+          flag_reason: result.flag_reason,
         });
 
         toast({
           title: "Checked Out Successfully",
-          description: `You have been checked out after ${hoursDiff.toFixed(1)} hours`,
+          description: `You have been checked out after ${result.duration_hours} hours`,
         });
       } else {
-        // Create new attendance record for check-in
-        const attendanceRecord: any = {
-          qr_code_id: qrData.qr_code_id,
-          status: 'present',
-          notes: notes.trim() || null,
-          check_in_time: new Date().toISOString(),
-        };
-        
-        if (attendeeType === 'student') {
-          attendanceRecord.student_id = attendeeData.id;
-        } else {
-          attendanceRecord.staff_id = attendeeData.id;
-        }
-
-        const { error: attendanceError } = await supabase
-          .from('attendance_records')
-          .insert(attendanceRecord);
-
-        if (attendanceError) throw attendanceError;
-
         setLastScanned({
-          session_name: qrData.session_name,
-          timestamp: new Date().toLocaleString(),
+          session_name: result.session_name,
+          timestamp: new Date(result.check_in_time).toLocaleString(),
           action: 'check_in',
+          flag_reason: result.flag_reason,
         });
 
+        const checkOutHint = `Scan again after ${new Date(result.check_out_after!).toLocaleTimeString()} to check out.`;
         toast({
-          title: "Checked In Successfully",
-          description: "Your attendance has been recorded. Scan again after 3 hours to check out.",
+          title: result.status === 'late' ? "Checked In Late" : "Checked In Successfully",
+          description: result.status === 'late'
+            ? `You checked in after the class start time and have been marked late. ${checkOutHint}`
+            : `Your attendance has been recorded. ${checkOutHint}`,
         });
       }
 
@@ -428,6 +309,11 @@ const QRCodeScanner = () => {
                   <strong>Duration:</strong> {lastScanned.duration}
                 </p>
               )}
+              {lastScanned.flag_reason && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">
+                  <strong>Flagged for review:</strong> {lastScanned.flag_reason}
+                </p>
+              )}
             </div>
           </div>
         )}
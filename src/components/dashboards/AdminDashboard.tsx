@@ -10,9 +10,13 @@ import UserRegistration from '@/components/management/UserRegistration';
 import StaffManagement from '@/components/management/StaffManagement';
 import CourseManagement from '@/components/management/CourseManagement';
 import ExamManagement from '@/components/management/ExamManagement';
+import GradingScaleManagement from '@/components/management/GradingScaleManagement';
 import AttendanceManagement from '@/components/management/AttendanceManagement';
+import AttendanceSettings from '@/components/management/AttendanceSettings';
 import QRCodeGenerator from '@/components/attendance/QRCodeGenerator';
 import CertificateManagement from '@/components/management/CertificateManagement';
+import CertificateTemplateManagement from '@/components/management/CertificateTemplateManagement';
+import CertificateVerificationLog from '@/components/management/CertificateVerificationLog';
 import ClassScheduling from '@/components/management/ClassScheduling';
 
 const AdminDashboard = () => {
@@ -139,16 +143,20 @@ const AdminDashboard = () => {
             <CourseManagement />
           </TabsContent>
           
-          <TabsContent value="exams">
+          <TabsContent value="exams" className="space-y-6">
             <ExamManagement />
+            <GradingScaleManagement />
           </TabsContent>
           
-          <TabsContent value="attendance">
+          <TabsContent value="attendance" className="space-y-6">
+            <AttendanceSettings />
             <AttendanceManagement />
           </TabsContent>
 
-          <TabsContent value="certificates">
+          <TabsContent value="certificates" className="space-y-6">
             <CertificateManagement />
+            <CertificateTemplateManagement />
+            <CertificateVerificationLog />
           </TabsContent>
 
           <TabsContent value="scheduling">
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { BookOpen, Calendar, QrCode, LogOut, Users, Settings } from 'lucide-react';
+import StudentManagement from '@/components/management/StudentManagement';
 import CourseManagement from '@/components/management/CourseManagement';
 import ExamManagement from '@/components/management/ExamManagement';
 import AttendanceManagement from '@/components/management/AttendanceManagement';
@@ -104,8 +105,9 @@ const StaffDashboard = () => {
         </div>
 
         <Tabs defaultValue="courses" className="w-full">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="courses">My Courses</TabsTrigger>
+            <TabsTrigger value="students">Students</TabsTrigger>
             <TabsTrigger value="exams">Exams</TabsTrigger>
             <TabsTrigger value="attendance">Attendance</TabsTrigger>
             <TabsTrigger value="scheduling">Class Scheduling</TabsTrigger>
@@ -117,6 +119,10 @@ const StaffDashboard = () => {
             <CourseManagement />
           </TabsContent>
           
+          <TabsContent value="students">
+            <StudentManagement />
+          </TabsContent>
+
           <TabsContent value="exams">
             <ExamManagement />
           </TabsContent>
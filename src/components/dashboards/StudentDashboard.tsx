@@ -9,6 +9,7 @@ import QRCodeScanner from '@/components/attendance/QRCodeScanner';
 import StudentResults from '@/components/student/StudentResults';
 import StudentAttendance from '@/components/student/StudentAttendance';
 import StudentCourses from '@/components/student/StudentCourses';
+import StudentTimetable from '@/components/student/StudentTimetable';
 import StudentNotifications from '@/components/student/StudentNotifications';
 import StudentCertificates from '@/components/student/StudentCertificates';
 import ChangePassword from '@/components/profile/ChangePassword';
@@ -45,22 +46,31 @@ const StudentDashboard = () => {
       if (!error && student) {
         setStudentData(student);
         
+        const { data: enrollments } = await supabase
+          .from('course_enrollments')
+          .select('course_id')
+          .eq('student_id', student.id)
+          .eq('status', 'enrolled');
+
+        const courseIds = (enrollments || []).map((e) => e.course_id);
+
         // Fetch basic stats
-        const [coursesResult, examsResult, attendanceResult] = await Promise.all([
-          supabase.from('courses').select('id', { count: 'exact' }),
+        const [examsResult, attendanceResult] = await Promise.all([
           supabase.from('exams')
             .select('id', { count: 'exact' })
+            .in('course_id', courseIds)
             .gte('exam_date', new Date().toISOString()),
-          supabase.from('attendance_records')
-            .select('status', { count: 'exact' })
-            .eq('student_id', student.id)
-            .eq('status', 'present'),
+          supabase.rpc('get_my_attendance_summary'),
         ]);
 
+        const attendance = attendanceResult.data || [];
+        const scheduledClasses = attendance.reduce((total, course) => total + course.scheduled_classes, 0);
+        const attendedClasses = attendance.reduce((total, course) => total + course.attended_classes, 0);
+
         setStats({
-          enrolledCourses: coursesResult.count || 0,
+          enrolledCourses: courseIds.length,
           upcomingExams: examsResult.count || 0,
-          attendanceRate: 85, // This would need more complex calculation
+          attendanceRate: scheduledClasses > 0 ? Math.round((attendedClasses / scheduledClasses) * 100) : 0,
         });
       }
     } catch (error) {
@@ -128,8 +138,9 @@ const StudentDashboard = () => {
         </div>
 
         <Tabs defaultValue="courses" className="w-full">
-          <TabsList className="grid w-full grid-cols-7">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="courses">My Courses</TabsTrigger>
+            <TabsTrigger value="timetable">Timetable</TabsTrigger>
             <TabsTrigger value="results">Results</TabsTrigger>
             <TabsTrigger value="attendance">Attendance</TabsTrigger>
             <TabsTrigger value="qr-scanner">QR Scanner</TabsTrigger>
@@ -142,6 +153,10 @@ const StudentDashboard = () => {
             <StudentCourses />
           </TabsContent>
           
+          <TabsContent value="timetable">
+            <StudentTimetable />
+          </TabsContent>
+          
           <TabsContent value="results">
             <StudentResults />
           </TabsContent>
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Scale } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+interface AssessmentWeightsDialogProps {
+  courses: {
+    id: string;
+    course_code: string;
+    course_name: string;
+  }[];
+}
+
+const EXAM_TYPES = ['midterm', 'final', 'quiz', 'assignment'];
+
+const emptyWeights = () => Object.fromEntries(EXAM_TYPES.map(type => [type, '']));
+
+const AssessmentWeightsDialog = ({ courses }: AssessmentWeightsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [courseId, setCourseId] = useState('');
+  const [weights, setWeights] = useState<Record<string, string>>(emptyWeights);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && !courseId && courses.length > 0) {
+      setCourseId(courses[0].id);
+    }
+  }, [open, courses]);
+
+  useEffect(() => {
+    if (open && courseId) {
+      fetchWeights();
+    }
+  }, [open, courseId]);
+
+  const fetchWeights = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('course_assessment_weights')
+        .select('exam_type, weight')
+        .eq('course_id', courseId);
+
+      if (error) throw error;
+      setWeights({
+        ...emptyWeights(),
+        ...Object.fromEntries((data || []).map(row => [row.exam_type, String(row.weight)])),
+      });
+    } catch (error) {
+      console.error('Error fetching assessment weights:', error);
+    }
+  };
+
+  const entered = EXAM_TYPES.filter(type => weights[type].trim() !== '');
+  // Rounded to cents so weights like 33.33 + 33.33 + 33.34 add up to exactly 100
+  const total = Math.round(entered.reduce((sum, type) => sum + Number(weights[type]), 0) * 100) / 100;
+  const hasInvalid = entered.some(type => {
+    const value = Number(weights[type]);
+    return !Number.isFinite(value) || value <= 0 || value > 100;
+  });
+
+  const handleSave = async () => {
+    if (hasInvalid || (entered.length > 0 && total !== 100)) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Weights",
+        description: "Each weight must be between 0 and 100, and together they must add up to 100%",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('set_course_assessment_weights', {
+        _course_id: courseId,
+        _weights: entered.map(type => ({ exam_type: type, weight: Number(weights[type]) })),
+      });
+
+      if (error) throw error;
+      toast({ title: "Assessment weights saved" });
+      setOpen(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={courses.length === 0}>
+          <Scale className="w-4 h-4 mr-2" />
+          Weights
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Assessment Weights</DialogTitle>
+          <DialogDescription>
+            How much each type of exam counts towards the final course grade. Leave all blank to weigh
+            every exam type equally.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="weights_course">Course</Label>
+            <Select value={courseId} onValueChange={setCourseId}>
+              <SelectTrigger id="weights_course">
+                <SelectValue placeholder="Select course" />
+              </SelectTrigger>
+              <SelectContent>
+                {courses.map(course => (
+                  <SelectItem key={course.id} value={course.id}>
+                    {course.course_code} - {course.course_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {EXAM_TYPES.map(type => (
+              <div key={type}>
+                <Label htmlFor={`weight_${type}`} className="capitalize">{type} (%)</Label>
+                <Input
+                  id={`weight_${type}`}
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={weights[type]}
+                  onChange={(e) => setWeights({ ...weights, [type]: e.target.value })}
+                  placeholder="Not counted"
+                />
+              </div>
+            ))}
+          </div>
+          <p className={`text-sm ${entered.length > 0 && total !== 100 ? 'text-destructive' : 'text-muted-foreground'}`}>
+            Total: {total}%
+          </p>
+          <Button onClick={handleSave} className="w-full" disabled={saving || !courseId}>
+            {saving ? 'Saving...' : 'Save Weights'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssessmentWeightsDialog;
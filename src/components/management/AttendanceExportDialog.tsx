@@ -0,0 +1,280 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Download, FileSpreadsheet, FileText } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { format, subDays } from 'date-fns';
+import { buildXlsx, toCsv } from '@/lib/spreadsheet';
+
+interface Course {
+  id: string;
+  course_code: string;
+  course_name: string;
+}
+
+interface ExportRecord {
+  check_in_time: string | null;
+  check_out_time: string | null;
+  status: string;
+  students: {
+    student_id: string;
+    profiles: { full_name: string } | null;
+  } | null;
+  qr_codes: {
+    session_name: string;
+    session_date: string;
+    courses: { course_code: string } | null;
+  };
+}
+
+interface AttendanceExportDialogProps {
+  courses: Course[];
+}
+
+// PostgREST caps each response, so large ranges are fetched page by page
+const PAGE_SIZE = 1000;
+
+const formatDateTime = (value: string | null) =>
+  value ? format(new Date(value), 'yyyy-MM-dd HH:mm') : '';
+
+const getDurationHours = (record: ExportRecord) => {
+  if (!record.check_in_time || !record.check_out_time) return '';
+  const milliseconds = new Date(record.check_out_time).getTime() - new Date(record.check_in_time).getTime();
+  return Math.round((milliseconds / 3600000) * 10) / 10;
+};
+
+const buildRecordRows = (records: ExportRecord[]) =>
+  records.map((record) => ({
+    'Student ID': record.students?.student_id || '',
+    'Name': record.students?.profiles?.full_name || '',
+    'Course': record.qr_codes.courses?.course_code || '',
+    'Session': record.qr_codes.session_name,
+    'Date': record.qr_codes.session_date,
+    'Check In': formatDateTime(record.check_in_time),
+    'Check Out': formatDateTime(record.check_out_time),
+    'Duration (hours)': getDurationHours(record),
+    'Status': record.status,
+  }));
+
+const buildSummaryRows = (records: ExportRecord[]) => {
+  const students = new Map<string, { name: string; total: number; present: number; late: number; absent: number; excused: number }>();
+
+  for (const record of records) {
+    const studentId = record.students?.student_id || '';
+    const summary = students.get(studentId) || {
+      name: record.students?.profiles?.full_name || '',
+      total: 0,
+      present: 0,
+      late: 0,
+      absent: 0,
+      excused: 0,
+    };
+    summary.total += 1;
+    if (record.status === 'present') summary.present += 1;
+    if (record.status === 'late') summary.late += 1;
+    if (record.status === 'absent') summary.absent += 1;
+    if (record.status === 'excused') summary.excused += 1;
+    students.set(studentId, summary);
+  }
+
+  return Array.from(students.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([studentId, summary]) => ({
+      'Student ID': studentId,
+      'Name': summary.name,
+      'Sessions': summary.total,
+      'Present': summary.present,
+      'Late': summary.late,
+      'Absent': summary.absent,
+      'Excused': summary.excused,
+      // Excused sessions do not count against the student
+      'Attendance (%)': summary.total > summary.excused
+        ? Math.round(((summary.present + summary.late) / (summary.total - summary.excused)) * 1000) / 10
+        : 0,
+    }));
+};
+
+const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const AttendanceExportDialog = ({ courses }: AttendanceExportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [courseId, setCourseId] = useState('all');
+  const [fromDate, setFromDate] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [exporting, setExporting] = useState(false);
+
+  const fetchRecords = async () => {
+    const records: ExportRecord[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('attendance_records')
+        .select(`
+          check_in_time,
+          check_out_time,
+          status,
+          students (
+            student_id,
+            profiles!students_user_id_fkey (
+              full_name
+            )
+          ),
+          qr_codes!inner (
+            session_name,
+            session_date,
+            courses (
+              course_code
+            )
+          )
+        `)
+        .gte('qr_codes.session_date', fromDate)
+        .lte('qr_codes.session_date', toDate)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (courseId !== 'all') {
+        query = query.eq('qr_codes.course_id', courseId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      records.push(...((data || []) as ExportRecord[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return records.sort((a, b) =>
+      a.qr_codes.session_date.localeCompare(b.qr_codes.session_date) ||
+      (a.students?.student_id || '').localeCompare(b.students?.student_id || '')
+    );
+  };
+
+  const handleExport = async (exportType: 'records-csv' | 'summary-csv' | 'xlsx') => {
+    if (!fromDate || !toDate || fromDate > toDate) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Date Range",
+        description: "Choose a start date on or before the end date",
+      });
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const records = await fetchRecords();
+      if (records.length === 0) {
+        toast({
+          title: "Nothing to Export",
+          description: "No attendance records match the selected course and dates",
+        });
+        return;
+      }
+
+      const courseCode = courses.find(c => c.id === courseId)?.course_code || 'all-courses';
+      const baseName = `attendance-${courseCode}-${fromDate}-to-${toDate}`;
+      const recordRows = buildRecordRows(records);
+      const summaryRows = buildSummaryRows(records);
+
+      if (exportType === 'xlsx') {
+        const workbook = await buildXlsx([
+          { name: 'Attendance', rows: recordRows },
+          { name: 'Student Summary', rows: summaryRows },
+        ]);
+        downloadFile(workbook, `${baseName}.xlsx`);
+      } else if (exportType === 'summary-csv') {
+        downloadFile(new Blob([toCsv(summaryRows)], { type: 'text/csv' }), `${baseName}-summary.csv`);
+      } else {
+        downloadFile(new Blob([toCsv(recordRows)], { type: 'text/csv' }), `${baseName}.csv`);
+      }
+
+      toast({
+        title: "Export Complete",
+        description: `Exported ${records.length} attendance records`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Attendance</DialogTitle>
+          <DialogDescription>
+            Download attendance records for a date range, with a per-student summary.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="export_course">Course</Label>
+            <Select value={courseId} onValueChange={setCourseId}>
+              <SelectTrigger id="export_course">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All courses</SelectItem>
+                {courses.map(course => (
+                  <SelectItem key={course.id} value={course.id}>
+                    {course.course_code} - {course.course_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="export_from">From</Label>
+              <Input id="export_from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="export_to">To</Label>
+              <Input id="export_to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2 pt-2">
+            <Button onClick={() => handleExport('xlsx')} disabled={exporting} className="flex-1">
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Excel (XLSX)
+            </Button>
+            <Button variant="outline" onClick={() => handleExport('records-csv')} disabled={exporting} className="flex-1">
+              <FileText className="w-4 h-4 mr-2" />
+              Records CSV
+            </Button>
+            <Button variant="outline" onClick={() => handleExport('summary-csv')} disabled={exporting} className="flex-1">
+              <FileText className="w-4 h-4 mr-2" />
+              Summary CSV
+            </Button>
+          </div>
+          {exporting && <p className="text-sm text-muted-foreground">Preparing export...</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AttendanceExportDialog;
@@ -6,13 +6,18 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Calendar, QrCode } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import AttendanceExportDialog from '@/components/management/AttendanceExportDialog';
+import AttendanceRosterDialog from '@/components/management/AttendanceRosterDialog';
 
 interface AttendanceRecord {
   id: string;
-  check_in_time: string;
+  qr_code_id: string;
+  check_in_time: string | null;
   check_out_time?: string;
   status: string;
   notes?: string;
+  flagged: boolean;
+  flag_reason?: string;
   students: {
     student_id: string;
     profiles: {
@@ -20,16 +25,29 @@ interface AttendanceRecord {
     };
   };
   qr_codes: {
-    code: string;
     session_name: string;
     session_date: string;
+    class_schedule_id: string | null;
     courses: {
       course_code: string;
       course_name: string;
     };
+    class_schedules: {
+      class_date: string;
+      start_time: string;
+      end_time: string;
+      topic: string | null;
+    } | null;
   };
 }
 
+interface AttendanceGroup {
+  key: string;
+  title: string;
+  subtitle: string;
+  records: AttendanceRecord[];
+}
+
 interface Course {
   id: string;
   course_code: string;
@@ -41,6 +59,7 @@ const AttendanceManagement = () => {
   const [courses, setCourses] = useState<Course[]>([]);
   const [selectedCourse, setSelectedCourse] = useState<string>('all');
   const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [groupBy, setGroupBy] = useState<string>('none');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -81,36 +100,36 @@ const AttendanceManagement = () => {
           *,
           students (
             student_id,
-            profiles (
+            profiles!students_user_id_fkey (
               full_name
             )
           ),
-          qr_codes (
-            code,
+          qr_codes!inner (
             session_name,
             session_date,
+            class_schedule_id,
             courses (
               course_code,
               course_name
+            ),
+            class_schedules (
+              class_date,
+              start_time,
+              end_time,
+              topic
             )
           )
         `)
-        .order('check_in_time', { ascending: false });
+        .order('check_in_time', { ascending: false, nullsFirst: false });
 
       // Filter by course if selected
       if (selectedCourse && selectedCourse !== 'all') {
         query = query.eq('qr_codes.course_id', selectedCourse);
       }
 
-      // Filter by date if selected
+      // Filter by session date so absences, which have no check-in time, are included
       if (selectedDate) {
-        const startDate = new Date(selectedDate);
-        const endDate = new Date(selectedDate);
-        endDate.setDate(endDate.getDate() + 1);
-        
-        query = query
-          .gte('check_in_time', startDate.toISOString())
-          .lt('check_in_time', endDate.toISOString());
+        query = query.eq('qr_codes.session_date', selectedDate);
       }
 
       const { data, error } = await query;
@@ -146,11 +165,116 @@ const AttendanceManagement = () => {
     return new Date(dateString).toLocaleDateString();
   };
 
+  // Sessions started for the same scheduled class are one meeting, whatever they were named
+  const groupByClassMeeting = (records: AttendanceRecord[]): AttendanceGroup[] => {
+    const groups = new Map<string, AttendanceGroup>();
+
+    for (const record of records) {
+      const schedule = record.qr_codes?.class_schedules;
+      const key = record.qr_codes?.class_schedule_id || `session:${record.qr_code_id}`;
+      if (!groups.has(key)) {
+        groups.set(key, {
+          key,
+          title: schedule
+            ? `${record.qr_codes.courses?.course_code || 'Unknown Course'} · ${schedule.topic || 'Scheduled class'}`
+            : `${record.qr_codes?.courses?.course_code || 'Unknown Course'} · ${record.qr_codes?.session_name || 'Unknown Session'}`,
+          subtitle: schedule
+            ? `${formatDate(schedule.class_date)} ${schedule.start_time.slice(0, 5)} - ${schedule.end_time.slice(0, 5)}`
+            : `${formatDate(record.qr_codes?.session_date || new Date().toISOString())} · Not linked to a scheduled class`,
+          records: [],
+        });
+      }
+      groups.get(key)!.records.push(record);
+    }
+
+    return Array.from(groups.values());
+  };
+
+  const countByStatus = (records: AttendanceRecord[], status: string) =>
+    records.filter(record => record.status === status).length;
+
+  const renderRecordsTable = (records: AttendanceRecord[]) => (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-muted/50">
+            <TableHead className="font-semibold">Student</TableHead>
+            <TableHead className="font-semibold">Student ID</TableHead>
+            <TableHead className="font-semibold">Course</TableHead>
+            <TableHead className="font-semibold">Session</TableHead>
+            <TableHead className="font-semibold">Check In</TableHead>
+            <TableHead className="font-semibold">Check Out</TableHead>
+            <TableHead className="font-semibold">Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {records.map((record) => (
+            <TableRow key={record.id} className="hover:bg-muted/25 transition-colors">
+              <TableCell className="font-medium">
+                {record.students?.profiles?.full_name || 'Unknown Student'}
+              </TableCell>
+              <TableCell className="text-muted-foreground">{record.students?.student_id || 'Unknown ID'}</TableCell>
+              <TableCell>
+                <div className="font-medium">{record.qr_codes?.courses?.course_code || 'Unknown Course'}</div>
+                <div className="text-sm text-muted-foreground">{record.qr_codes?.courses?.course_name || ''}</div>
+              </TableCell>
+              <TableCell>
+                <div>
+                  <div className="font-medium">{record.qr_codes?.session_name || 'Unknown Session'}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {formatDate(record.qr_codes?.session_date || new Date().toISOString())}
+                  </div>
+                </div>
+              </TableCell>
+              <TableCell className="font-mono text-sm">
+                {record.check_in_time
+                  ? formatTime(record.check_in_time)
+                  : <span className="text-muted-foreground">-</span>
+                }
+              </TableCell>
+              <TableCell className="font-mono text-sm">
+                {record.check_out_time
+                  ? formatTime(record.check_out_time)
+                  : <span className="text-muted-foreground">{record.check_in_time ? 'Not checked out' : '-'}</span>
+                }
+              </TableCell>
+              <TableCell>
+                <Badge variant={getStatusColor(record.status)} className="capitalize">
+                  {record.status}
+                </Badge>
+                {record.flagged && (
+                  <div className="mt-1">
+                    <Badge variant="outline" className="border-amber-500 text-amber-600" title={record.flag_reason}>
+                      Flagged
+                    </Badge>
+                    <div className="text-xs text-muted-foreground mt-1">{record.flag_reason}</div>
+                  </div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Attendance Management</CardTitle>
-        <CardDescription>Monitor student attendance across sessions</CardDescription>
+        <div className="flex justify-between items-start gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Attendance Management</CardTitle>
+            <CardDescription>Monitor student attendance across sessions</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <AttendanceRosterDialog
+              selectedDate={selectedDate}
+              selectedCourse={selectedCourse}
+              onSaved={fetchAttendanceRecords}
+            />
+            <AttendanceExportDialog courses={courses} />
+          </div>
+        </div>
         
         <div className="flex flex-col sm:flex-row gap-4 pt-4">
           <div className="flex-1">
@@ -178,6 +302,18 @@ const AttendanceManagement = () => {
               className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
             />
           </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium mb-2">Group Records</label>
+            <Select value={groupBy} onValueChange={setGroupBy}>
+              <SelectTrigger className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">All records</SelectItem>
+                <SelectItem value="class">By class meeting</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </div>
       </CardHeader>
       
@@ -189,55 +325,29 @@ const AttendanceManagement = () => {
           </div>
         ) : (
           <>
-            <div className="rounded-md border">
-              <Table>
-                <TableHeader>
-                  <TableRow className="bg-muted/50">
-                    <TableHead className="font-semibold">Student</TableHead>
-                    <TableHead className="font-semibold">Student ID</TableHead>
-                    <TableHead className="font-semibold">Course</TableHead>
-                    <TableHead className="font-semibold">Session</TableHead>
-                    <TableHead className="font-semibold">Check In</TableHead>
-                    <TableHead className="font-semibold">Check Out</TableHead>
-                    <TableHead className="font-semibold">Status</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                   {attendanceRecords.map((record) => (
-                     <TableRow key={record.id} className="hover:bg-muted/25 transition-colors">
-                       <TableCell className="font-medium">
-                         {record.students?.profiles?.full_name || 'Unknown Student'}
-                       </TableCell>
-                       <TableCell className="text-muted-foreground">{record.students?.student_id || 'Unknown ID'}</TableCell>
-                       <TableCell>
-                         <div className="font-medium">{record.qr_codes?.courses?.course_code || 'Unknown Course'}</div>
-                         <div className="text-sm text-muted-foreground">{record.qr_codes?.courses?.course_name || ''}</div>
-                       </TableCell>
-                      <TableCell>
-                        <div>
-                          <div className="font-medium">{record.qr_codes?.session_name || 'Unknown Session'}</div>
-                          <div className="text-sm text-muted-foreground">
-                            {formatDate(record.qr_codes?.session_date || new Date().toISOString())}
-                          </div>
-                        </div>
-                      </TableCell>
-                      <TableCell className="font-mono text-sm">{formatTime(record.check_in_time)}</TableCell>
-                      <TableCell className="font-mono text-sm">
-                        {record.check_out_time 
-                          ? formatTime(record.check_out_time) 
-                          : <span className="text-muted-foreground">Not checked out</span>
-                        }
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant={getStatusColor(record.status)} className="capitalize">
-                          {record.status}
-                        </Badge>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
+            {groupBy === 'class' ? (
+              <div className="space-y-6">
+                {groupByClassMeeting(attendanceRecords).map((group) => (
+                  <div key={group.key} className="space-y-2">
+                    <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2">
+                      <div>
+                        <h3 className="font-semibold">{group.title}</h3>
+                        <p className="text-sm text-muted-foreground">{group.subtitle}</p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Badge variant="default">{countByStatus(group.records, 'present')} present</Badge>
+                        <Badge variant="secondary">{countByStatus(group.records, 'late')} late</Badge>
+                        <Badge variant="destructive">{countByStatus(group.records, 'absent')} absent</Badge>
+                        <Badge variant="outline">{countByStatus(group.records, 'excused')} excused</Badge>
+                      </div>
+                    </div>
+                    {renderRecordsTable(group.records)}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              renderRecordsTable(attendanceRecords)
+            )}
             
             {attendanceRecords.length === 0 && (
               <div className="text-center py-12 text-muted-foreground">
@@ -0,0 +1,399 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardList } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import type { Json } from '@/integrations/supabase/types';
+
+interface Session {
+  id: string;
+  session_name: string;
+  course_id: string | null;
+  courses: { course_code: string } | null;
+}
+
+interface StudentInfo {
+  id: string;
+  student_id: string;
+  profiles: { full_name: string } | null;
+}
+
+interface RosterEntry {
+  student: StudentInfo;
+  status: string | null;
+  check_in_time: string | null;
+}
+
+interface AuditEntry {
+  id: string;
+  action: string;
+  old_status: string | null;
+  new_status: string | null;
+  changes: Json | null;
+  reason: string;
+  changed_at: string;
+  students: { student_id: string } | null;
+  profiles: { full_name: string } | null;
+}
+
+interface AttendanceRosterDialogProps {
+  selectedDate: string;
+  selectedCourse: string;
+  onSaved: () => void;
+}
+
+const ATTENDANCE_STATUSES = ['present', 'late', 'absent', 'excused'];
+
+const AttendanceRosterDialog = ({ selectedDate, selectedCourse, onSaved }: AttendanceRosterDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessionId, setSessionId] = useState('');
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [bulkStatus, setBulkStatus] = useState('present');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchSessions();
+    }
+  }, [open, selectedDate, selectedCourse]);
+
+  useEffect(() => {
+    setSelected([]);
+    if (sessionId) {
+      fetchRoster();
+    } else {
+      setRoster([]);
+      setAuditLog([]);
+    }
+  }, [sessionId]);
+
+  const fetchSessions = async () => {
+    try {
+      let query = supabase
+        .from('qr_codes')
+        .select('id, session_name, course_id, courses(course_code)')
+        .eq('session_date', selectedDate)
+        .order('created_at');
+
+      if (selectedCourse !== 'all') {
+        query = query.eq('course_id', selectedCourse);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setSessions(data || []);
+      setSessionId((current) => (data || []).some(s => s.id === current) ? current : data?.[0]?.id || '');
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to fetch attendance sessions",
+      });
+    }
+  };
+
+  const fetchRoster = async () => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) return;
+
+    setLoading(true);
+    try {
+      // General sessions aren't tied to a course, so only their records are listed
+      const enrollmentsQuery = session.course_id
+        ? supabase
+            .from('course_enrollments')
+            .select('students(id, student_id, profiles!students_user_id_fkey(full_name))')
+            .eq('status', 'enrolled')
+            .eq('course_id', session.course_id)
+        : Promise.resolve({ data: [], error: null });
+
+      const [enrollmentsResult, recordsResult, auditResult] = await Promise.all([
+        enrollmentsQuery,
+        supabase
+          .from('attendance_records')
+          .select('status, check_in_time, students(id, student_id, profiles!students_user_id_fkey(full_name))')
+          .eq('qr_code_id', sessionId),
+        supabase
+          .from('attendance_audit_log')
+          .select('id, action, old_status, new_status, changes, reason, changed_at, students(student_id), profiles(full_name)')
+          .eq('qr_code_id', sessionId)
+          .order('changed_at', { ascending: false }),
+      ]);
+
+      if (enrollmentsResult.error) throw enrollmentsResult.error;
+      if (recordsResult.error) throw recordsResult.error;
+      if (auditResult.error) throw auditResult.error;
+
+      // Enrolled students, plus anyone else who has a record for the session
+      const entries = new Map<string, RosterEntry>();
+      for (const enrollment of enrollmentsResult.data || []) {
+        if (enrollment.students) {
+          entries.set(enrollment.students.id, { student: enrollment.students, status: null, check_in_time: null });
+        }
+      }
+      for (const record of recordsResult.data || []) {
+        if (record.students) {
+          entries.set(record.students.id, {
+            student: record.students,
+            status: record.status,
+            check_in_time: record.check_in_time,
+          });
+        }
+      }
+
+      setRoster(
+        Array.from(entries.values()).sort((a, b) => a.student.student_id.localeCompare(b.student.student_id))
+      );
+      setAuditLog(auditResult.data || []);
+    } catch (error) {
+      console.error('Error fetching roster:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to fetch the session roster",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleStudent = (studentId: string, checked: boolean) => {
+    setSelected((current) =>
+      checked ? [...current, studentId] : current.filter(id => id !== studentId)
+    );
+  };
+
+  const applyStatus = async () => {
+    if (selected.length === 0) return;
+
+    if (!reason.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Reason Required",
+        description: "Please explain why attendance is being changed",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('set_attendance_status', {
+        _qr_code_id: sessionId,
+        _student_ids: selected,
+        _status: bulkStatus,
+        _reason: reason.trim(),
+      });
+
+      if (error) throw error;
+      toast({
+        title: "Attendance Updated",
+        description: `${data} record${data === 1 ? '' : 's'} marked ${bulkStatus}`,
+      });
+      setSelected([]);
+      setReason('');
+      fetchRoster();
+      onSaved();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'present': return 'default';
+      case 'late': return 'secondary';
+      case 'absent': return 'destructive';
+      default: return 'outline';
+    }
+  };
+
+  // Columns other than the status that an update changed, e.g. "check in time, notes"
+  const describeOtherChanges = (changes: Json | null) => {
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) return '';
+    return Object.keys(changes)
+      .filter(column => column !== 'status')
+      .map(column => column.replace(/_/g, ' '))
+      .join(', ');
+  };
+
+  const describeChange = (entry: AuditEntry) => {
+    if (entry.action === 'delete') return `Deleted (${entry.old_status})`;
+    const statusChange = entry.old_status !== entry.new_status
+      ? `${entry.old_status || 'Not marked'} → ${entry.new_status}`
+      : '';
+    const otherChanges = describeOtherChanges(entry.changes);
+    return [statusChange, otherChanges && `Changed ${otherChanges}`].filter(Boolean).join('; ');
+  };
+
+  const allSelected = roster.length > 0 && selected.length === roster.length;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ClipboardList className="w-4 h-4 mr-2" />
+          Edit Roster
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Session Roster</DialogTitle>
+          <DialogDescription>
+            Correct attendance for a session on {new Date(selectedDate).toLocaleDateString()}. Every change is logged with its reason.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sessions.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">
+            No attendance sessions match the current course and date filters.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="roster_session">Session</Label>
+              <Select value={sessionId} onValueChange={setSessionId}>
+                <SelectTrigger id="roster_session">
+                  <SelectValue placeholder="Select session" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sessions.map(session => (
+                    <SelectItem key={session.id} value={session.id}>
+                      {session.courses?.course_code || 'General'} - {session.session_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4 border border-dashed border-muted rounded-lg bg-muted/30">
+              <div>
+                <Label htmlFor="bulk_status">Mark {selected.length} selected as</Label>
+                <Select value={bulkStatus} onValueChange={setBulkStatus}>
+                  <SelectTrigger id="bulk_status" className="bg-background capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ATTENDANCE_STATUSES.map(status => (
+                      <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="change_reason">Reason</Label>
+                <Textarea
+                  id="change_reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g., Projector failed, attendance taken on paper"
+                  className="bg-background min-h-[40px]"
+                />
+              </div>
+              <div className="md:col-span-3 flex justify-end">
+                <Button onClick={applyStatus} disabled={saving || selected.length === 0 || !reason.trim()}>
+                  {saving ? 'Saving...' : 'Apply'}
+                </Button>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="py-6 text-center text-muted-foreground">Loading roster...</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) => setSelected(checked ? roster.map(entry => entry.student.id) : [])}
+                        aria-label="Select all students"
+                      />
+                    </TableHead>
+                    <TableHead>Student ID</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Check In</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roster.map((entry) => (
+                    <TableRow key={entry.student.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.includes(entry.student.id)}
+                          onCheckedChange={(checked) => toggleStudent(entry.student.id, checked === true)}
+                          aria-label={`Select ${entry.student.student_id}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{entry.student.student_id}</TableCell>
+                      <TableCell className="font-medium">{entry.student.profiles?.full_name || 'Unknown Student'}</TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {entry.check_in_time ? new Date(entry.check_in_time).toLocaleTimeString() : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {entry.status ? (
+                          <Badge variant={getStatusColor(entry.status)} className="capitalize">{entry.status}</Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">Not marked</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {auditLog.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Change History</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>By</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {auditLog.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="text-sm">{new Date(entry.changed_at).toLocaleString()}</TableCell>
+                        <TableCell className="text-sm">{entry.students?.student_id || 'Unknown'}</TableCell>
+                        <TableCell className="text-sm first-letter:capitalize">{describeChange(entry)}</TableCell>
+                        <TableCell className="text-sm">{entry.reason}</TableCell>
+                        <TableCell className="text-sm">{entry.profiles?.full_name || 'Unknown'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AttendanceRosterDialog;
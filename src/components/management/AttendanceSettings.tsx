@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Settings } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+const AttendanceSettings = () => {
+  const [minimumPercentage, setMinimumPercentage] = useState('75');
+  const [timezone, setTimezone] = useState('UTC');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('key, value')
+        .in('key', ['min_attendance_percentage', 'timezone']);
+
+      if (error) throw error;
+      for (const setting of data || []) {
+        if (setting.key === 'min_attendance_percentage') setMinimumPercentage(String(setting.value));
+        if (setting.key === 'timezone') setTimezone(String(setting.value));
+      }
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const percentage = Number(minimumPercentage);
+    if (!Number.isFinite(percentage) || percentage < 0 || percentage > 100) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Threshold",
+        description: "The minimum attendance must be between 0 and 100",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert([
+          { key: 'min_attendance_percentage', value: percentage },
+          { key: 'timezone', value: timezone.trim() || 'UTC' },
+        ]);
+
+      if (error) throw error;
+      toast({ title: "Attendance settings saved" });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Settings className="w-5 h-5" />
+          Attendance Settings
+        </CardTitle>
+        <CardDescription>Institution-wide rules used for late marks and attendance warnings</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="flex flex-col sm:flex-row gap-4 sm:items-end">
+          <div className="flex-1">
+            <Label htmlFor="min_attendance_percentage">Minimum Attendance (%)</Label>
+            <Input
+              id="min_attendance_percentage"
+              type="number"
+              min="0"
+              max="100"
+              step="0.5"
+              value={minimumPercentage}
+              onChange={(e) => setMinimumPercentage(e.target.value)}
+              required
+            />
+          </div>
+          <div className="flex-1">
+            <Label htmlFor="timezone">Timezone</Label>
+            <Input
+              id="timezone"
+              placeholder="e.g., Africa/Lagos"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AttendanceSettings;
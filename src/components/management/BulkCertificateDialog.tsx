@@ -0,0 +1,333 @@
+import { useState, useEffect } from 'react';
+import JSZip from 'jszip';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Users } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { renderCertificatePdf, type CertificateTemplate } from '@/lib/certificatePdf';
+import { getCertificateVerificationUrl } from '@/lib/certificates';
+import type { Database } from '@/integrations/supabase/types';
+
+type CompletionRow = Database['public']['Functions']['get_course_completion']['Returns'][number];
+
+interface BulkCertificateDialogProps {
+  courses: {
+    id: string;
+    course_code: string;
+    course_name: string;
+  }[];
+  templates: CertificateTemplate[];
+  onIssued: () => void;
+}
+
+interface IssueProgress {
+  done: number;
+  total: number;
+  failures: { student_number: string; message: string }[];
+}
+
+const getIneligibleReason = (row: CompletionRow, minAttendance: number | null) => {
+  if (row.has_certificate) return 'Already certified';
+  if (row.total_exams === 0) return 'No published results';
+  if (row.graded_exams < row.total_exams) return `${row.graded_exams}/${row.total_exams} results published`;
+  if (!row.is_pass) return 'Not passing';
+  if (!row.eligible) return minAttendance === null ? 'Attendance below minimum' : `Attendance below ${minAttendance}%`;
+  return null;
+};
+
+const BulkCertificateDialog = ({ courses, templates, onIssued }: BulkCertificateDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [courseId, setCourseId] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [minAttendance, setMinAttendance] = useState('');
+  const [rows, setRows] = useState<CompletionRow[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<IssueProgress | null>(null);
+  const [issuing, setIssuing] = useState(false);
+  const [zip, setZip] = useState<JSZip | null>(null);
+
+  const course = courses.find((c) => c.id === courseId);
+  const template = templates.find((t) => t.id === templateId) || templates.find((t) => t.is_default);
+  const threshold = minAttendance.trim() === '' ? null : Number(minAttendance);
+  const issuable = rows.filter((row) => row.eligible && !row.has_certificate);
+
+  useEffect(() => {
+    if (open && courseId) {
+      fetchCompletion();
+    }
+  }, [open, courseId, minAttendance]);
+
+  const fetchCompletion = async () => {
+    if (threshold !== null && (Number.isNaN(threshold) || threshold < 0 || threshold > 100)) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_course_completion', {
+        _course_id: courseId,
+        _min_attendance: threshold ?? undefined,
+      });
+
+      if (error) throw error;
+      setRows(data || []);
+      setSelected((data || []).filter((row) => row.eligible && !row.has_certificate).map((row) => row.student_id));
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (issuing) return;
+    setOpen(value);
+    if (!value) {
+      setRows([]);
+      setSelected([]);
+      setProgress(null);
+      setZip(null);
+    }
+  };
+
+  const toggleStudent = (studentId: string, checked: boolean) => {
+    setSelected((current) => checked ? [...current, studentId] : current.filter((id) => id !== studentId));
+  };
+
+  // Issues one at a time so progress is visible and one failure does not stop the batch
+  const handleIssue = async () => {
+    if (!course || !template) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const batch = issuable.filter((row) => selected.includes(row.student_id));
+    const archive = new JSZip();
+    const failures: IssueProgress['failures'] = [];
+
+    setIssuing(true);
+    setZip(null);
+    setProgress({ done: 0, total: batch.length, failures });
+
+    for (const [index, row] of batch.entries()) {
+      try {
+        const { data: certificate, error } = await supabase
+          .from('certificates')
+          .insert({
+            student_id: row.student_id,
+            course_id: course.id,
+            grade: row.letter,
+            issued_by: user.id,
+            template_id: template.id
+          })
+          .select('certificate_number, issue_date, signature')
+          .single();
+
+        if (error) throw error;
+
+        const doc = await renderCertificatePdf(template, {
+          student_name: row.student_name || row.student_number,
+          course_name: course.course_name,
+          course_code: course.course_code,
+          grade: row.letter,
+          issue_date: certificate.issue_date,
+          certificate_number: certificate.certificate_number,
+          verification_url: getCertificateVerificationUrl(certificate.certificate_number),
+          signature: certificate.signature,
+        });
+        archive.file(`${row.student_number}-${certificate.certificate_number}.pdf`, doc.output('blob'));
+      } catch (error) {
+        failures.push({ student_number: row.student_number, message: (error as Error).message });
+      }
+      setProgress({ done: index + 1, total: batch.length, failures: [...failures] });
+    }
+
+    setIssuing(false);
+    setZip(archive);
+    toast({
+      title: 'Certificates issued',
+      description: `${batch.length - failures.length} of ${batch.length} certificates issued for ${course.course_code}`,
+      variant: failures.length > 0 ? 'destructive' : 'default',
+    });
+    onIssued();
+    fetchCompletion();
+  };
+
+  const downloadZip = async () => {
+    if (!zip || !course) return;
+
+    const url = URL.createObjectURL(await zip.generateAsync({ type: 'blob' }));
+    const link = document.createElement('a');
+    link.download = `certificates-${course.course_code}.zip`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const selectedCount = issuable.filter((row) => selected.includes(row.student_id)).length;
+  const allSelected = issuable.length > 0 && selectedCount === issuable.length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Users className="mr-2 h-4 w-4" />
+          Issue for Cohort
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Issue Certificates for a Cohort</DialogTitle>
+          <DialogDescription>
+            Students who passed with every result published and met the attendance minimum are selected
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="bulk-course">Course</Label>
+            <Select value={courseId} onValueChange={setCourseId} disabled={issuing}>
+              <SelectTrigger id="bulk-course">
+                <SelectValue placeholder="Select course" />
+              </SelectTrigger>
+              <SelectContent>
+                {courses.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.course_code} - {c.course_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="bulk-attendance">Minimum Attendance (%)</Label>
+            <Input
+              id="bulk-attendance"
+              type="number"
+              min="0"
+              max="100"
+              value={minAttendance}
+              onChange={(e) => setMinAttendance(e.target.value)}
+              placeholder="Attendance setting"
+              disabled={issuing}
+            />
+          </div>
+          <div>
+            <Label htmlFor="bulk-template">Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId} disabled={issuing}>
+              <SelectTrigger id="bulk-template">
+                <SelectValue placeholder={template ? `Default (${template.name})` : 'Select template'} />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}{t.is_default ? ' (default)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {progress && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>{issuing ? 'Issuing certificates...' : 'Finished'}</span>
+              <span>{progress.done} / {progress.total}</span>
+            </div>
+            <Progress value={progress.total === 0 ? 100 : (progress.done / progress.total) * 100} />
+            {progress.failures.map((failure) => (
+              <p key={failure.student_number} className="text-sm text-destructive">
+                {failure.student_number}: {failure.message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {!courseId ? (
+          <div className="text-center py-8 text-muted-foreground">Select a course to see its cohort.</div>
+        ) : loading ? (
+          <div className="text-center py-8">Loading cohort...</div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No students are enrolled in this course.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => setSelected(checked ? issuable.map((row) => row.student_id) : [])}
+                    disabled={issuing || issuable.length === 0}
+                    aria-label="Select all eligible students"
+                  />
+                </TableHead>
+                <TableHead>Student ID</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Grade</TableHead>
+                <TableHead>Attendance</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const reason = getIneligibleReason(row, threshold);
+                return (
+                  <TableRow key={row.student_id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.includes(row.student_id)}
+                        onCheckedChange={(checked) => toggleStudent(row.student_id, checked === true)}
+                        disabled={issuing || reason !== null}
+                        aria-label={`Select ${row.student_number}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-mono">{row.student_number}</TableCell>
+                    <TableCell>{row.student_name || 'N/A'}</TableCell>
+                    <TableCell>
+                      {row.letter ? `${row.letter} (${Number(row.final_percentage).toFixed(1)}%)` : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {row.attendance_percentage == null ? '-' : `${row.attendance_percentage}%`}
+                    </TableCell>
+                    <TableCell>
+                      {reason ? (
+                        <Badge variant={row.has_certificate ? 'secondary' : 'outline'}>{reason}</Badge>
+                      ) : (
+                        <Badge>Eligible</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          {zip && progress && progress.done > progress.failures.length && (
+            <Button variant="outline" onClick={downloadZip}>
+              <Download className="mr-2 h-4 w-4" />
+              Download ZIP
+            </Button>
+          )}
+          <Button onClick={handleIssue} disabled={issuing || selectedCount === 0 || !template}>
+            {issuing ? 'Issuing...' : `Issue ${selectedCount} Certificate${selectedCount === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkCertificateDialog;
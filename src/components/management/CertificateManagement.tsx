@@ -7,10 +7,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
-import { Award, Download, Eye, Plus } from 'lucide-react';
+import { Award, Ban, Download, Eye, Plus, RefreshCw } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import QRCode from 'qrcode';
+import { renderCertificatePdf, type CertificateLayout, type CertificateTemplate } from '@/lib/certificatePdf';
+import { getCertificateVerificationUrl } from '@/lib/certificates';
+import CertificateStatusDialog from '@/components/management/CertificateStatusDialog';
+import BulkCertificateDialog from '@/components/management/BulkCertificateDialog';
 
 interface Certificate {
   id: string;
@@ -20,45 +24,83 @@ interface Certificate {
   student: any;
   courses: any;
   barcode_data: string;
+  signature: string;
+  course_id: string;
+  status: string;
+  revocation_reason: string | null;
+  template_id: string | null;
+}
+
+interface GradingScale {
+  id: string;
+  is_default: boolean;
+  grading_scale_bands: { letter: string; min_percentage: number }[];
 }
 
 const CertificateManagement = () => {
   const [certificates, setCertificates] = useState<Certificate[]>([]);
   const [students, setStudents] = useState<any[]>([]);
   const [courses, setCourses] = useState<any[]>([]);
+  const [gradingScales, setGradingScales] = useState<GradingScale[]>([]);
+  const [templates, setTemplates] = useState<CertificateTemplate[]>([]);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [statusAction, setStatusAction] = useState<{ certificate: Certificate; action: 'revoke' | 'reissue' } | null>(null);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [formData, setFormData] = useState({
     student_id: '',
     course_id: '',
     grade: '',
-    remarks: ''
+    remarks: '',
+    template_id: ''
   });
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const fetchCertificates = async () => {
+    const { data, error } = await supabase
+      .from('certificates')
+      .select(`
+        *,
+        student:students(student_id, user_profile:profiles!students_user_id_fkey(full_name, email)),
+        courses(course_name, course_code)
+      `)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    setCertificates(data as any || []);
+  };
+
+  // Refreshes the list without the loading state, which would unmount open dialogs
+  const refreshCertificates = async () => {
+    try {
+      await fetchCertificates();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const fetchData = async () => {
     setLoading(true);
     try {
-      // Fetch certificates
-      const { data: certsData, error: certsError } = await supabase
-        .from('certificates')
-        .select(`
-          *,
-          student:students(student_id, user_profile:profiles(full_name, email)),
-          courses(course_name, course_code)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (certsError) throw certsError;
-      setCertificates(certsData as any || []);
+      await fetchCertificates();
 
       // Fetch students
       const { data: studentsData, error: studentsError } = await supabase
         .from('students')
-        .select('id, student_id, profiles(full_name)');
+        .select('id, student_id, profiles!students_user_id_fkey(full_name)');
       
       if (studentsError) throw studentsError;
       setStudents(studentsData || []);
@@ -66,10 +108,30 @@ const CertificateManagement = () => {
       // Fetch courses
       const { data: coursesData, error: coursesError } = await supabase
         .from('courses')
-        .select('id, course_code, course_name');
+        .select('id, course_code, course_name, grading_scale_id');
       
       if (coursesError) throw coursesError;
       setCourses(coursesData || []);
+
+      // Fetch grading scales so grades can only be picked from the course's scale
+      const { data: scalesData, error: scalesError } = await supabase
+        .from('grading_scales')
+        .select('id, is_default, grading_scale_bands(letter, min_percentage)');
+
+      if (scalesError) throw scalesError;
+      setGradingScales(scalesData || []);
+
+      // Fetch certificate templates
+      const { data: templatesData, error: templatesError } = await supabase
+        .from('certificate_templates')
+        .select('*')
+        .order('name');
+
+      if (templatesError) throw templatesError;
+      setTemplates((templatesData || []).map((template) => ({
+        ...template,
+        layout: template.layout as unknown as CertificateLayout,
+      })));
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -81,10 +143,52 @@ const CertificateManagement = () => {
     }
   };
 
-  const generateCertificateNumber = () => {
-    const year = new Date().getFullYear();
-    const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-    return `CERT-${year}-${random}`;
+  const getGradeOptions = (courseId: string) => {
+    const course = courses.find((c) => c.id === courseId);
+    const courseScale = gradingScales.find((scale) =>
+      course?.grading_scale_id ? scale.id === course.grading_scale_id : scale.is_default
+    );
+    return [...(courseScale?.grading_scale_bands || [])]
+      .sort((a, b) => b.min_percentage - a.min_percentage)
+      .map((band) => band.letter);
+  };
+
+  const selectedCourse = courses.find((course) => course.id === formData.course_id);
+  const gradeOptions = getGradeOptions(formData.course_id);
+
+  const defaultTemplate = templates.find((template) => template.is_default);
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'revoked': return 'destructive';
+      case 'superseded': return 'secondary';
+      default: return 'default';
+    }
+  };
+
+  const handlePreview = async () => {
+    const template = templates.find((t) => t.id === formData.template_id) || defaultTemplate;
+    if (!template) return;
+
+    const student = students.find((s) => s.id === formData.student_id);
+    try {
+      const doc = await renderCertificatePdf(template, {
+        student_name: student?.profiles?.full_name || 'Student Name',
+        course_name: selectedCourse?.course_name || 'Course Name',
+        course_code: selectedCourse?.course_code || 'CODE',
+        grade: formData.grade || null,
+        issue_date: new Date().toISOString(),
+        certificate_number: 'PREVIEW',
+        verification_url: getCertificateVerificationUrl('PREVIEW'),
+      });
+      setPreviewUrl(URL.createObjectURL(doc.output('blob')));
+    } catch (error) {
+      toast({
+        title: 'Preview failed',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -94,20 +198,14 @@ const CertificateManagement = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const certificateNumber = generateCertificateNumber();
-      const barcodeData = `${window.location.origin}/verify-certificate?cert=${certificateNumber}`;
-      
-      // Generate QR code
-      const qrCodeDataURL = await QRCode.toDataURL(barcodeData);
-
+      // The certificate number, verification payload and signature are assigned by the database
       const { error } = await supabase.from('certificates').insert({
         student_id: formData.student_id,
         course_id: formData.course_id,
-        certificate_number: certificateNumber,
-        grade: formData.grade,
+        grade: formData.grade || null,
         remarks: formData.remarks,
         issued_by: user.id,
-        barcode_data: qrCodeDataURL
+        template_id: formData.template_id || defaultTemplate?.id || null
       });
 
       if (error) throw error;
@@ -118,7 +216,8 @@ const CertificateManagement = () => {
       });
 
       setIsDialogOpen(false);
-      setFormData({ student_id: '', course_id: '', grade: '', remarks: '' });
+      setPreviewUrl(null);
+      setFormData({ student_id: '', course_id: '', grade: '', remarks: '', template_id: '' });
       fetchData();
     } catch (error: any) {
       toast({
@@ -130,45 +229,35 @@ const CertificateManagement = () => {
   };
 
   const downloadCertificate = async (cert: any) => {
-    // Create a simple certificate HTML
-    const html = `
-      <html>
-        <head>
-          <style>
-            body { font-family: Arial, sans-serif; text-align: center; padding: 50px; }
-            .certificate { border: 10px solid #0066cc; padding: 40px; max-width: 800px; margin: 0 auto; }
-            h1 { color: #0066cc; font-size: 48px; margin: 20px 0; }
-            .student-name { font-size: 36px; font-weight: bold; margin: 30px 0; }
-            .details { font-size: 18px; margin: 20px 0; }
-            .qr-code { margin: 30px 0; }
-          </style>
-        </head>
-        <body>
-          <div class="certificate">
-            <h1>Certificate of Completion</h1>
-            <p class="details">This is to certify that</p>
-            <p class="student-name">${cert.student?.user_profile?.full_name || 'N/A'}</p>
-            <p class="details">has successfully completed</p>
-            <p class="details"><strong>${cert.courses?.course_name || 'N/A'} (${cert.courses?.course_code || 'N/A'})</strong></p>
-            <p class="details">Grade: ${cert.grade || 'N/A'}</p>
-            <p class="details">Certificate Number: ${cert.certificate_number}</p>
-            <p class="details">Issue Date: ${new Date(cert.issue_date).toLocaleDateString()}</p>
-            <div class="qr-code">
-              <img src="${cert.barcode_data}" alt="Verification QR Code" />
-              <p>Scan to verify authenticity</p>
-            </div>
-          </div>
-        </body>
-      </html>
-    `;
+    const template = templates.find((t) => t.id === cert.template_id) || defaultTemplate;
+    if (!template) {
+      toast({
+        title: 'Error',
+        description: 'No certificate template is available',
+        variant: 'destructive',
+      });
+      return;
+    }
 
-    const blob = new Blob([html], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `certificate-${cert.certificate_number}.html`;
-    a.click();
-    URL.revokeObjectURL(url);
+    try {
+      const doc = await renderCertificatePdf(template, {
+        student_name: cert.student?.user_profile?.full_name || 'N/A',
+        course_name: cert.courses?.course_name || 'N/A',
+        course_code: cert.courses?.course_code || 'N/A',
+        grade: cert.grade,
+        issue_date: cert.issue_date,
+        certificate_number: cert.certificate_number,
+        verification_url: getCertificateVerificationUrl(cert.certificate_number),
+        signature: cert.signature,
+      });
+      doc.save(`certificate-${cert.certificate_number}.pdf`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
   };
 
   if (loading) {
@@ -183,76 +272,113 @@ const CertificateManagement = () => {
             <CardTitle>Certificate Management</CardTitle>
             <CardDescription>Generate and manage student certificates</CardDescription>
           </div>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Generate Certificate
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>Generate New Certificate</DialogTitle>
-                <DialogDescription>Create a certificate for a student</DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div>
-                  <Label htmlFor="student_id">Student</Label>
-                  <Select value={formData.student_id} onValueChange={(value) => setFormData({ ...formData, student_id: value })}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select student" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {students.map((student: any) => (
-                        <SelectItem key={student.id} value={student.id}>
-                          {student.student_id} - {student.profiles?.full_name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div>
-                  <Label htmlFor="course_id">Course</Label>
-                  <Select value={formData.course_id} onValueChange={(value) => setFormData({ ...formData, course_id: value })}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select course" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {courses.map((course) => (
-                        <SelectItem key={course.id} value={course.id}>
-                          {course.course_code} - {course.course_name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div>
-                  <Label htmlFor="grade">Grade</Label>
-                  <Input
-                    id="grade"
-                    value={formData.grade}
-                    onChange={(e) => setFormData({ ...formData, grade: e.target.value })}
-                    placeholder="e.g., A, B+, 85%"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="remarks">Remarks (Optional)</Label>
-                  <Textarea
-                    id="remarks"
-                    value={formData.remarks}
-                    onChange={(e) => setFormData({ ...formData, remarks: e.target.value })}
-                    placeholder="Additional comments"
+          <div className="flex gap-2">
+            <BulkCertificateDialog courses={courses} templates={templates} onIssued={refreshCertificates} />
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Generate Certificate
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Generate New Certificate</DialogTitle>
+                  <DialogDescription>Create a certificate for a student</DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div>
+                    <Label htmlFor="student_id">Student</Label>
+                    <Select value={formData.student_id} onValueChange={(value) => setFormData({ ...formData, student_id: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select student" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {students.map((student: any) => (
+                          <SelectItem key={student.id} value={student.id}>
+                            {student.student_id} - {student.profiles?.full_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="course_id">Course</Label>
+                    <Select value={formData.course_id} onValueChange={(value) => setFormData({ ...formData, course_id: value, grade: '' })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select course" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {courses.map((course) => (
+                          <SelectItem key={course.id} value={course.id}>
+                            {course.course_code} - {course.course_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="grade">Grade</Label>
+                    <Select
+                      value={formData.grade}
+                      onValueChange={(value) => setFormData({ ...formData, grade: value })}
+                      disabled={!formData.course_id}
+                    >
+                      <SelectTrigger id="grade">
+                        <SelectValue placeholder={formData.course_id ? 'Select grade' : 'Select a course first'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {gradeOptions.map((letter) => (
+                          <SelectItem key={letter} value={letter}>{letter}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="template_id">Template</Label>
+                    <Select value={formData.template_id} onValueChange={(value) => setFormData({ ...formData, template_id: value })}>
+                      <SelectTrigger id="template_id">
+                        <SelectValue placeholder={defaultTemplate ? `Default (${defaultTemplate.name})` : 'Select template'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}{template.is_default ? ' (default)' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="remarks">Remarks (Optional)</Label>
+                    <Textarea
+                      id="remarks"
+                      value={formData.remarks}
+                      onChange={(e) => setFormData({ ...formData, remarks: e.target.value })}
+                      placeholder="Additional comments"
+                    />
+                  </div>
+                  <div className="flex justify-end space-x-2">
+                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="button" variant="outline" onClick={handlePreview} disabled={templates.length === 0}>
+                      <Eye className="mr-2 h-4 w-4" />
+                      Preview
+                    </Button>
+                    <Button type="submit">Generate Certificate</Button>
+                  </div>
+                </form>
+                {previewUrl && (
+                  <iframe
+                    src={previewUrl}
+                    title="Certificate preview"
+                    className="w-full h-[400px] border rounded"
                   />
-                </div>
-                <div className="flex justify-end space-x-2">
-                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button type="submit">Generate Certificate</Button>
-                </div>
-              </form>
-            </DialogContent>
-          </Dialog>
+                )}
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -269,6 +395,7 @@ const CertificateManagement = () => {
                 <TableHead>Course</TableHead>
                 <TableHead>Grade</TableHead>
                 <TableHead>Issue Date</TableHead>
+                <TableHead>Status</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -280,11 +407,46 @@ const CertificateManagement = () => {
                   <TableCell>{cert.courses?.course_name || 'N/A'}</TableCell>
                   <TableCell>{cert.grade || 'N/A'}</TableCell>
                   <TableCell>{new Date(cert.issue_date).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={getStatusColor(cert.status)}
+                      className="capitalize"
+                      title={cert.revocation_reason || undefined}
+                    >
+                      {cert.status}
+                    </Badge>
+                  </TableCell>
                   <TableCell>
                     <div className="flex space-x-2">
-                      <Button size="sm" variant="outline" onClick={() => downloadCertificate(cert)}>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => downloadCertificate(cert)}
+                        disabled={cert.status !== 'active'}
+                        title="Download"
+                      >
                         <Download className="h-4 w-4" />
                       </Button>
+                      {cert.status === 'active' && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setStatusAction({ certificate: cert, action: 'reissue' })}
+                            title="Reissue"
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setStatusAction({ certificate: cert, action: 'revoke' })}
+                            title="Revoke"
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -292,6 +454,14 @@ const CertificateManagement = () => {
             </TableBody>
           </Table>
         )}
+        <CertificateStatusDialog
+          certificate={statusAction?.certificate ?? null}
+          action={statusAction?.action ?? 'revoke'}
+          gradeOptions={statusAction ? getGradeOptions(statusAction.certificate.course_id) : []}
+          open={!!statusAction}
+          onOpenChange={(open) => !open && setStatusAction(null)}
+          onCompleted={refreshCertificates}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+type CertificateStatusAction = 'revoke' | 'reissue';
+
+interface CertificateStatusDialogProps {
+  certificate: {
+    id: string;
+    certificate_number: string;
+    grade: string | null;
+  } | null;
+  action: CertificateStatusAction;
+  gradeOptions: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCompleted: () => void;
+}
+
+const CertificateStatusDialog = ({
+  certificate,
+  action,
+  gradeOptions,
+  open,
+  onOpenChange,
+  onCompleted,
+}: CertificateStatusDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [grade, setGrade] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason('');
+      setGrade(certificate?.grade || '');
+    }
+  }, [open, certificate]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!certificate) return;
+
+    setSaving(true);
+    try {
+      if (action === 'revoke') {
+        const { error } = await supabase
+          .from('certificates')
+          .update({ status: 'revoked', revocation_reason: reason.trim() })
+          .eq('id', certificate.id);
+
+        if (error) throw error;
+        toast({ title: 'Certificate revoked', description: certificate.certificate_number });
+      } else {
+        const { data, error } = await supabase.rpc('reissue_certificate', {
+          _certificate_id: certificate.id,
+          _grade: grade || undefined,
+          _reason: reason.trim(),
+        });
+
+        if (error) throw error;
+        toast({
+          title: 'Certificate reissued',
+          description: `${data.certificate_number} replaces ${certificate.certificate_number}`,
+        });
+      }
+      onCompleted();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{action === 'revoke' ? 'Revoke Certificate' : 'Reissue Certificate'}</DialogTitle>
+          <DialogDescription>
+            {action === 'revoke'
+              ? `${certificate?.certificate_number} will show as revoked when verified. This cannot be undone.`
+              : `A new certificate number replaces ${certificate?.certificate_number}, which will show as superseded.`}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {action === 'reissue' && (
+            <div>
+              <Label htmlFor="reissue-grade">Grade</Label>
+              <Select value={grade} onValueChange={setGrade}>
+                <SelectTrigger id="reissue-grade">
+                  <SelectValue placeholder="Select grade" />
+                </SelectTrigger>
+                <SelectContent>
+                  {gradeOptions.map((letter) => (
+                    <SelectItem key={letter} value={letter}>{letter}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="status-reason">Reason</Label>
+            <Textarea
+              id="status-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={action === 'revoke' ? 'Why is this certificate being revoked?' : 'What is being corrected?'}
+              required
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant={action === 'revoke' ? 'destructive' : 'default'}
+              disabled={saving || !reason.trim()}
+            >
+              {saving ? 'Saving...' : action === 'revoke' ? 'Revoke' : 'Reissue'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CertificateStatusDialog;
@@ -0,0 +1,479 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Eye, LayoutTemplate, Plus, Save, Star, Trash2, X } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  CERTIFICATE_LAYOUT_LABELS,
+  CERTIFICATE_PLACEHOLDERS,
+  DEFAULT_CERTIFICATE_LAYOUT,
+  renderCertificatePdf,
+  type CertificateLayout,
+  type CertificateLayoutKey,
+  type CertificateTemplate,
+} from '@/lib/certificatePdf';
+
+type ImageField = 'logo_url' | 'background_url' | 'signature_url';
+
+const IMAGE_FIELDS: { field: ImageField; label: string }[] = [
+  { field: 'logo_url', label: 'Logo' },
+  { field: 'signature_url', label: 'Signature' },
+  { field: 'background_url', label: 'Background' },
+];
+
+const SAMPLE_DETAILS = {
+  student_name: 'Jane Doe',
+  course_name: 'Introduction to Computer Science',
+  course_code: 'CS101',
+  grade: 'A',
+  issue_date: new Date().toISOString(),
+  certificate_number: 'CERT-SAMPLE-0001',
+  verification_url: `${window.location.origin}/verify-certificate?cert=CERT-SAMPLE-0001`,
+};
+
+const CertificateTemplateManagement = () => {
+  const [templates, setTemplates] = useState<CertificateTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [draft, setDraft] = useState<CertificateTemplate | null>(null);
+  const [newTemplateName, setNewTemplateName] = useState('');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState<ImageField | null>(null);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  useEffect(() => {
+    const template = templates.find(t => t.id === selectedId);
+    setDraft(template ? { ...template, layout: { ...DEFAULT_CERTIFICATE_LAYOUT, ...template.layout } } : null);
+    setPreviewUrl(null);
+  }, [selectedId, templates]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const fetchTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('certificate_templates')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      const loaded = (data || []).map(template => ({
+        ...template,
+        layout: template.layout as unknown as CertificateLayout,
+      }));
+      setTemplates(loaded);
+      setSelectedId((current) =>
+        loaded.some(t => t.id === current) ? current : loaded.find(t => t.is_default)?.id || loaded[0]?.id || ''
+      );
+    } catch (error) {
+      console.error('Error fetching certificate templates:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to fetch certificate templates",
+      });
+    }
+  };
+
+  const updateDraft = (changes: Partial<CertificateTemplate>) => {
+    setDraft(current => current ? { ...current, ...changes } : current);
+  };
+
+  const updateLayout = (key: CertificateLayoutKey, field: 'x' | 'y' | 'size', value: string) => {
+    setDraft(current => current ? {
+      ...current,
+      layout: { ...current.layout, [key]: { ...current.layout[key], [field]: Number(value) } },
+    } : current);
+  };
+
+  const handleUpload = async (field: ImageField, file: File | undefined) => {
+    if (!draft || !file) return;
+
+    setUploading(field);
+    try {
+      const fileExt = file.name.split('.').pop();
+      const filePath = `templates/${draft.id}/${field.replace('_url', '')}-${Date.now()}.${fileExt}`;
+
+      const { error } = await supabase.storage
+        .from('certificate-assets')
+        .upload(filePath, file, { upsert: true });
+
+      if (error) throw error;
+
+      const { data } = supabase.storage
+        .from('certificate-assets')
+        .getPublicUrl(filePath);
+
+      updateDraft({ [field]: data.publicUrl });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Upload failed",
+        description: (error as Error).message,
+      });
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!draft) return;
+
+    try {
+      const doc = await renderCertificatePdf(draft, SAMPLE_DETAILS);
+      setPreviewUrl(URL.createObjectURL(doc.output('blob')));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Preview failed",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    if (!/^#[0-9a-fA-F]{6}$/.test(draft.accent_color)) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Colour",
+        description: "The accent colour must be a hex value like #0066cc",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('certificate_templates')
+        .update({
+          title: draft.title.trim(),
+          body_text: draft.body_text.trim(),
+          orientation: draft.orientation,
+          accent_color: draft.accent_color,
+          logo_url: draft.logo_url,
+          background_url: draft.background_url,
+          signature_url: draft.signature_url,
+          signatory_name: draft.signatory_name?.trim() || null,
+          signatory_title: draft.signatory_title?.trim() || null,
+          layout: draft.layout as unknown as Json,
+        })
+        .eq('id', draft.id);
+
+      if (error) throw error;
+      toast({ title: "Certificate template saved" });
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = newTemplateName.trim();
+    if (!name) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('certificate_templates')
+        .insert({ name })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      toast({ title: `Template ${name} created` });
+      setNewTemplateName('');
+      setSelectedId(data.id);
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleSetDefault = async () => {
+    if (!draft) return;
+
+    try {
+      // Only one template can be the default at a time
+      const { error: clearError } = await supabase
+        .from('certificate_templates')
+        .update({ is_default: false })
+        .eq('is_default', true);
+
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from('certificate_templates')
+        .update({ is_default: true })
+        .eq('id', draft.id);
+
+      if (error) throw error;
+      toast({ title: "Default certificate template updated" });
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft) return;
+    if (!confirm('Delete this template? Certificates issued with it will use the default template.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('certificate_templates')
+        .delete()
+        .eq('id', draft.id);
+
+      if (error) throw error;
+      toast({ title: "Certificate template deleted" });
+      setSelectedId('');
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LayoutTemplate className="w-5 h-5" />
+          Certificate Templates
+        </CardTitle>
+        <CardDescription>Design the PDF certificates issued to students</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="certificate_template">Template</Label>
+            <Select value={selectedId} onValueChange={setSelectedId}>
+              <SelectTrigger id="certificate_template">
+                <SelectValue placeholder="Select template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}{template.is_default ? ' (default)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="new_template_name">New Template</Label>
+            <div className="flex gap-2">
+              <Input
+                id="new_template_name"
+                value={newTemplateName}
+                onChange={(e) => setNewTemplateName(e.target.value)}
+                placeholder="e.g., Honours"
+              />
+              <Button variant="outline" onClick={handleCreate} disabled={!newTemplateName.trim()}>
+                <Plus className="w-4 h-4 mr-2" />
+                Create
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {draft && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-2">
+              {draft.is_default ? (
+                <Badge>Default</Badge>
+              ) : (
+                <>
+                  <Button variant="outline" size="sm" onClick={handleSetDefault}>
+                    <Star className="w-4 h-4 mr-2" />
+                    Make Default
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleDelete}>
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete Template
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="template_title">Title</Label>
+                <Input
+                  id="template_title"
+                  value={draft.title}
+                  onChange={(e) => updateDraft({ title: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="template_orientation">Orientation</Label>
+                  <Select value={draft.orientation} onValueChange={(value) => updateDraft({ orientation: value })}>
+                    <SelectTrigger id="template_orientation">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="landscape">Landscape</SelectItem>
+                      <SelectItem value="portrait">Portrait</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="template_accent">Accent Colour</Label>
+                  <Input
+                    id="template_accent"
+                    type="color"
+                    value={draft.accent_color}
+                    onChange={(e) => updateDraft({ accent_color: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="template_body">Body Text</Label>
+                <Textarea
+                  id="template_body"
+                  value={draft.body_text}
+                  onChange={(e) => updateDraft({ body_text: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Placeholders: {CERTIFICATE_PLACEHOLDERS.map(key => `{{${key}}}`).join(', ')}
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="signatory_name">Signatory Name</Label>
+                <Input
+                  id="signatory_name"
+                  value={draft.signatory_name || ''}
+                  onChange={(e) => updateDraft({ signatory_name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="signatory_title">Signatory Title</Label>
+                <Input
+                  id="signatory_title"
+                  value={draft.signatory_title || ''}
+                  onChange={(e) => updateDraft({ signatory_title: e.target.value })}
+                  placeholder="e.g., Registrar"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {IMAGE_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`template_${field}`}>{label}</Label>
+                  {draft[field] && (
+                    <div className="flex items-center gap-2">
+                      <img src={draft[field] || ''} alt={label} className="h-12 max-w-[8rem] object-contain border rounded" />
+                      <Button variant="ghost" size="sm" onClick={() => updateDraft({ [field]: null })} aria-label={`Remove ${label}`}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                  <Input
+                    id={`template_${field}`}
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    disabled={uploading === field}
+                    onChange={(e) => handleUpload(field, e.target.files?.[0])}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Layout</h3>
+              <p className="text-sm text-muted-foreground">
+                Positions are percentages of the page from the top left. Size is the font size for text and
+                the width in millimetres for images.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Element</TableHead>
+                    <TableHead>X (%)</TableHead>
+                    <TableHead>Y (%)</TableHead>
+                    <TableHead>Size</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(Object.keys(CERTIFICATE_LAYOUT_LABELS) as CertificateLayoutKey[]).map(key => (
+                    <TableRow key={key}>
+                      <TableCell className="font-medium">{CERTIFICATE_LAYOUT_LABELS[key]}</TableCell>
+                      {(['x', 'y', 'size'] as const).map(field => (
+                        <TableCell key={field}>
+                          <Input
+                            type="number"
+                            min={field === 'size' ? 1 : 0}
+                            max={field === 'size' ? undefined : 100}
+                            value={draft.layout[key][field]}
+                            onChange={(e) => updateLayout(key, field, e.target.value)}
+                            aria-label={`${CERTIFICATE_LAYOUT_LABELS[key]} ${field}`}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handlePreview}>
+                <Eye className="w-4 h-4 mr-2" />
+                Preview
+              </Button>
+              <Button onClick={handleSave} disabled={saving || uploading !== null}>
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Template'}
+              </Button>
+            </div>
+
+            {previewUrl && (
+              <iframe
+                src={previewUrl}
+                title="Certificate preview"
+                className="w-full h-[600px] border rounded"
+              />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CertificateTemplateManagement;
@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
+
+type Verification = Database['public']['Tables']['certificate_verifications']['Row'];
+
+const RESULT_LABELS: Record<string, string> = {
+  valid: 'Valid',
+  revoked: 'Revoked',
+  superseded: 'Superseded',
+  invalid_signature: 'Invalid signature',
+  not_found: 'Not found',
+  rate_limited: 'Rate limited',
+};
+
+const getResultColor = (result: string) => {
+  switch (result) {
+    case 'valid': return 'default';
+    case 'revoked':
+    case 'superseded': return 'secondary';
+    case 'not_found': return 'outline';
+    default: return 'destructive';
+  }
+};
+
+const CertificateVerificationLog = () => {
+  const [verifications, setVerifications] = useState<Verification[]>([]);
+  const [result, setResult] = useState('all');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchVerifications();
+  }, [result]);
+
+  const fetchVerifications = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('certificate_verifications')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (result !== 'all') {
+        query = query.eq('result', result);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setVerifications(data || []);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filtered = verifications.filter((verification) =>
+    verification.certificate_number.toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Verification Log</CardTitle>
+        <CardDescription>The 200 most recent certificate verification attempts</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Search by certificate number"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <Select value={result} onValueChange={setResult}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All results</SelectItem>
+              {Object.entries(RESULT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {loading ? (
+          <div className="text-center py-8">Loading verifications...</div>
+        ) : filtered.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No verification attempts found.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Certificate Number</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead>User Agent</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map((verification) => (
+                <TableRow key={verification.id}>
+                  <TableCell>{new Date(verification.created_at).toLocaleString()}</TableCell>
+                  <TableCell className="font-mono">{verification.certificate_number}</TableCell>
+                  <TableCell>
+                    <Badge variant={getResultColor(verification.result)}>
+                      {RESULT_LABELS[verification.result] || verification.result}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="font-mono">{verification.ip_address || '-'}</TableCell>
+                  <TableCell className="max-w-xs truncate" title={verification.user_agent || undefined}>
+                    {verification.user_agent || '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CertificateVerificationLog;
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,20 +9,29 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { supabase } from '@/integrations/supabase/client';
-import { Calendar as CalendarIcon, Plus, Edit, Trash2, Clock } from 'lucide-react';
+import { Calendar as CalendarIcon, Plus, Edit, Trash2, Clock, QrCode, AlertTriangle } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
+import ClassAttendanceDialog from '@/components/attendance/ClassAttendanceDialog';
+import TimetableCalendar from '@/components/timetable/TimetableCalendar';
+import type { Database } from '@/integrations/supabase/types';
+
+type ScheduleConflict = Database['public']['Functions']['find_class_schedule_conflicts']['Returns'][number];
 
 interface ClassSchedule {
   id: string;
+  course_id: string;
   class_date: string;
   start_time: string;
   end_time: string;
   room_number: string;
   topic: string;
   status: string;
+  late_grace_minutes: number;
   courses: {
     course_name: string;
     course_code: string;
@@ -43,6 +52,9 @@ const ClassScheduling = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingSchedule, setEditingSchedule] = useState<ClassSchedule | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date>();
+  const [attendanceSchedule, setAttendanceSchedule] = useState<ClassSchedule | null>(null);
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const conflictRequestRef = useRef(0);
   const [formData, setFormData] = useState({
     course_id: '',
     instructor_id: '',
@@ -52,29 +64,75 @@ const ClassScheduling = () => {
     room_number: '',
     topic: '',
     notes: '',
-    status: 'scheduled'
+    status: 'scheduled',
+    late_grace_minutes: 10
   });
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  useEffect(() => {
+    if (!isDialogOpen) return;
+    checkConflicts();
+  }, [
+    isDialogOpen,
+    formData.class_date,
+    formData.start_time,
+    formData.end_time,
+    formData.room_number,
+    formData.instructor_id,
+    formData.status,
+  ]);
+
+  // Shows clashing room or instructor bookings while the form is filled in.
+  // The database enforces the same rule when the class is saved.
+  const checkConflicts = async () => {
+    const request = ++conflictRequestRef.current;
+    const { class_date, start_time, end_time, room_number, instructor_id, status } = formData;
+    if (
+      !class_date || !start_time || !end_time || end_time <= start_time ||
+      ['cancelled', 'postponed'].includes(status)
+    ) {
+      setConflicts([]);
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('find_class_schedule_conflicts', {
+      _class_date: class_date,
+      _start_time: start_time,
+      _end_time: end_time,
+      _room_number: room_number || undefined,
+      _instructor_id: instructor_id || undefined,
+      _exclude_id: editingSchedule?.id,
+    });
+
+    // A newer check started while this one was in flight
+    if (request !== conflictRequestRef.current) return;
+
+    if (error) {
+      console.error('Error checking schedule conflicts:', error);
+      return;
+    }
+    setConflicts(data || []);
+  };
+
+  // Editing only the topic, notes or grace period of a class that already
+  // overlapped is allowed, the same as the database check
+  const isSlotUnchanged = () => {
+    if (!editingSchedule || ['cancelled', 'postponed'].includes(editingSchedule.status)) return false;
+    const originalInstructorId = instructors.find(i => i.employee_id === editingSchedule.staff?.employee_id)?.id || '';
+    return formData.class_date === editingSchedule.class_date
+      && formData.start_time.slice(0, 5) === editingSchedule.start_time.slice(0, 5)
+      && formData.end_time.slice(0, 5) === editingSchedule.end_time.slice(0, 5)
+      && (formData.room_number || '') === (editingSchedule.room_number || '')
+      && formData.instructor_id === originalInstructorId;
+  };
+
   const fetchData = async () => {
     setLoading(true);
     try {
-      // Fetch schedules
-      const { data: schedData, error: schedError } = await supabase
-        .from('class_schedules')
-        .select(`
-          *,
-          courses(course_name, course_code),
-          staff(employee_id, profiles(full_name))
-        `)
-        .order('class_date', { ascending: true })
-        .order('start_time', { ascending: true });
-
-      if (schedError) throw schedError;
-      setSchedules(schedData || []);
+      await fetchSchedules();
 
       // Fetch courses
       const { data: coursesData, error: coursesError } = await supabase
@@ -102,6 +160,34 @@ const ClassScheduling = () => {
     }
   };
 
+  const fetchSchedules = async () => {
+    const { data, error } = await supabase
+      .from('class_schedules')
+      .select(`
+        *,
+        courses(course_name, course_code),
+        staff(employee_id, profiles(full_name))
+      `)
+      .order('class_date', { ascending: true })
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
+    setSchedules(data || []);
+  };
+
+  // Reloads schedules without the loading state, so the selected view and calendar week are kept
+  const refreshSchedules = async () => {
+    try {
+      await fetchSchedules();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -129,7 +215,7 @@ const ClassScheduling = () => {
 
       setIsDialogOpen(false);
       resetForm();
-      fetchData();
+      refreshSchedules();
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -139,6 +225,34 @@ const ClassScheduling = () => {
     }
   };
 
+  const handleReschedule = async (
+    schedule: ClassSchedule,
+    slot: { class_date: string; start_time: string; end_time: string }
+  ) => {
+    try {
+      const { error } = await supabase
+        .from('class_schedules')
+        .update(slot)
+        .eq('id', schedule.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Class rescheduled',
+        description: `${schedule.courses.course_code} moved to ${format(new Date(`${slot.class_date}T${slot.start_time}`), 'EEE d MMM, HH:mm')}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      // Refetch either way so a rejected move snaps back
+      refreshSchedules();
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this class schedule?')) return;
 
@@ -154,7 +268,7 @@ const ClassScheduling = () => {
         title: 'Success',
         description: 'Class schedule deleted successfully',
       });
-      fetchData();
+      refreshSchedules();
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -174,10 +288,12 @@ const ClassScheduling = () => {
       room_number: '',
       topic: '',
       notes: '',
-      status: 'scheduled'
+      status: 'scheduled',
+      late_grace_minutes: 10
     });
     setEditingSchedule(null);
     setSelectedDate(undefined);
+    setConflicts([]);
   };
 
   const openEditDialog = (schedule: ClassSchedule) => {
@@ -191,12 +307,18 @@ const ClassScheduling = () => {
       room_number: schedule.room_number,
       topic: schedule.topic,
       notes: '',
-      status: schedule.status
+      status: schedule.status,
+      late_grace_minutes: schedule.late_grace_minutes
     });
     setSelectedDate(new Date(schedule.class_date));
     setIsDialogOpen(true);
   };
 
+  // Attendance can be taken until the class ends, unless it was called off
+  const canStartAttendance = (schedule: ClassSchedule) =>
+    !['cancelled', 'postponed'].includes(schedule.status) &&
+    new Date(`${schedule.class_date}T${schedule.end_time}`) > new Date();
+
   const getStatusBadge = (status: string) => {
     const variants: any = {
       scheduled: 'default',
@@ -312,14 +434,31 @@ const ClassScheduling = () => {
                     />
                   </div>
                 </div>
-                <div>
-                  <Label htmlFor="room_number">Room Number</Label>
-                  <Input
-                    id="room_number"
-                    value={formData.room_number}
-                    onChange={(e) => setFormData({ ...formData, room_number: e.target.value })}
-                    placeholder="e.g., Room 101"
-                  />
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="room_number">Room Number</Label>
+                    <Input
+                      id="room_number"
+                      value={formData.room_number}
+                      onChange={(e) => setFormData({ ...formData, room_number: e.target.value })}
+                      placeholder="e.g., Room 101"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="late_grace_minutes">Late After (minutes)</Label>
+                    <Input
+                      id="late_grace_minutes"
+                      type="number"
+                      min="0"
+                      max="240"
+                      value={formData.late_grace_minutes}
+                      onChange={(e) => setFormData({ ...formData, late_grace_minutes: parseInt(e.target.value) || 0 })}
+                      required
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Check-ins this long after the start time are marked late
+                    </p>
+                  </div>
                 </div>
                 <div>
                   <Label htmlFor="topic">Topic</Label>
@@ -353,11 +492,33 @@ const ClassScheduling = () => {
                     placeholder="Additional notes"
                   />
                 </div>
+                {conflicts.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Scheduling conflict</AlertTitle>
+                    <AlertDescription>
+                      <ul className="mt-1 space-y-1">
+                        {conflicts.map((conflict) => (
+                          <li key={conflict.id}>
+                            {conflict.conflict === 'instructor'
+                              ? `${conflict.instructor_name || 'The instructor'} is already teaching`
+                              : `${conflict.room_number} is already booked for`}{' '}
+                            {conflict.course_code} - {conflict.course_name},{' '}
+                            {conflict.start_time.slice(0, 5)} - {conflict.end_time.slice(0, 5)}
+                            {conflict.topic && ` (${conflict.topic})`}
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
                 <div className="flex justify-end space-x-2">
                   <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                     Cancel
                   </Button>
-                  <Button type="submit">{editingSchedule ? 'Update' : 'Schedule'} Class</Button>
+                  <Button type="submit" disabled={conflicts.length > 0 && !isSlotUnchanged()}>
+                    {editingSchedule ? 'Update' : 'Schedule'} Class
+                  </Button>
                 </div>
               </form>
             </DialogContent>
@@ -370,50 +531,83 @@ const ClassScheduling = () => {
             No classes scheduled yet. Schedule your first class above.
           </div>
         ) : (
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Date</TableHead>
-                <TableHead>Time</TableHead>
-                <TableHead>Course</TableHead>
-                <TableHead>Instructor</TableHead>
-                <TableHead>Room</TableHead>
-                <TableHead>Topic</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {schedules.map((schedule) => (
-                <TableRow key={schedule.id}>
-                  <TableCell>{new Date(schedule.class_date).toLocaleDateString()}</TableCell>
-                  <TableCell>
-                    <div className="flex items-center">
-                      <Clock className="mr-1 h-3 w-3" />
-                      {schedule.start_time} - {schedule.end_time}
-                    </div>
-                  </TableCell>
-                  <TableCell>{schedule.courses.course_code}</TableCell>
-                  <TableCell>{schedule.staff.profiles.full_name}</TableCell>
-                  <TableCell>{schedule.room_number || 'N/A'}</TableCell>
-                  <TableCell>{schedule.topic || 'N/A'}</TableCell>
-                  <TableCell>{getStatusBadge(schedule.status)}</TableCell>
-                  <TableCell>
-                    <div className="flex space-x-2">
-                      <Button size="sm" variant="outline" onClick={() => openEditDialog(schedule)}>
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button size="sm" variant="destructive" onClick={() => handleDelete(schedule.id)}>
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+          <Tabs defaultValue="list">
+            <TabsList className="mb-4">
+              <TabsTrigger value="list">List</TabsTrigger>
+              <TabsTrigger value="calendar">Calendar</TabsTrigger>
+            </TabsList>
+            <TabsContent value="list">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Course</TableHead>
+                    <TableHead>Instructor</TableHead>
+                    <TableHead>Room</TableHead>
+                    <TableHead>Topic</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedules.map((schedule) => (
+                    <TableRow key={schedule.id}>
+                      <TableCell>{new Date(schedule.class_date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center">
+                          <Clock className="mr-1 h-3 w-3" />
+                          {schedule.start_time} - {schedule.end_time}
+                        </div>
+                      </TableCell>
+                      <TableCell>{schedule.courses.course_code}</TableCell>
+                      <TableCell>{schedule.staff.profiles.full_name}</TableCell>
+                      <TableCell>{schedule.room_number || 'N/A'}</TableCell>
+                      <TableCell>{schedule.topic || 'N/A'}</TableCell>
+                      <TableCell>{getStatusBadge(schedule.status)}</TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Start attendance"
+                            onClick={() => setAttendanceSchedule(schedule)}
+                            disabled={!canStartAttendance(schedule)}
+                          >
+                            <QrCode className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => openEditDialog(schedule)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="destructive" onClick={() => handleDelete(schedule.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+            <TabsContent value="calendar">
+              <TimetableCalendar
+                classes={schedules}
+                onSelect={openEditDialog}
+                onReschedule={handleReschedule}
+              />
+              <p className="text-xs text-muted-foreground mt-2">
+                Drag a class to another day or time to reschedule it. Click a class to edit it.
+              </p>
+            </TabsContent>
+          </Tabs>
         )}
       </CardContent>
+
+      <ClassAttendanceDialog
+        schedule={attendanceSchedule}
+        open={!!attendanceSchedule}
+        onOpenChange={(open) => !open && setAttendanceSchedule(null)}
+      />
     </Card>
   );
 };
@@ -19,6 +19,7 @@ interface Course {
   credits: number;
   semester: number;
   instructor_id?: string;
+  grading_scale_id?: string | null;
   staff?: {
     profiles: {
       full_name: string;
@@ -26,6 +27,12 @@ interface Course {
   };
 }
 
+interface GradingScale {
+  id: string;
+  name: string;
+  is_default: boolean;
+}
+
 interface StaffMember {
   id: string;
   profiles: {
@@ -36,6 +43,7 @@ interface StaffMember {
 const CourseManagement = () => {
   const [courses, setCourses] = useState<Course[]>([]);
   const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [gradingScales, setGradingScales] = useState<GradingScale[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingCourse, setEditingCourse] = useState<Course | null>(null);
@@ -47,11 +55,13 @@ const CourseManagement = () => {
     credits: 3,
     semester: 1,
     instructor_id: 'none',
+    grading_scale_id: 'default',
   });
 
   useEffect(() => {
     fetchCourses();
     fetchStaff();
+    fetchGradingScales();
   }, []);
 
   const fetchCourses = async () => {
@@ -100,12 +110,27 @@ const CourseManagement = () => {
     }
   };
 
+  const fetchGradingScales = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('grading_scales')
+        .select('id, name, is_default')
+        .order('name');
+
+      if (error) throw error;
+      setGradingScales(data || []);
+    } catch (error) {
+      console.error('Error fetching grading scales:', error);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
       const courseData = {
         ...formData,
         instructor_id: formData.instructor_id === 'none' ? null : formData.instructor_id || null,
+        grading_scale_id: formData.grading_scale_id === 'default' ? null : formData.grading_scale_id,
       };
 
       if (editingCourse) {
@@ -167,6 +192,7 @@ const CourseManagement = () => {
       credits: 3,
       semester: 1,
       instructor_id: 'none',
+      grading_scale_id: 'default',
     });
   };
 
@@ -179,10 +205,13 @@ const CourseManagement = () => {
       credits: course.credits,
       semester: course.semester,
       instructor_id: course.instructor_id || 'none',
+      grading_scale_id: course.grading_scale_id || 'default',
     });
     setDialogOpen(true);
   };
 
+  const defaultScale = gradingScales.find(scale => scale.is_default);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -308,6 +337,29 @@ const CourseManagement = () => {
                     </Select>
                   </div>
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="grading_scale_id" className="text-sm font-medium">Grading Scale</Label>
+                  <Select
+                    value={formData.grading_scale_id}
+                    onValueChange={(value) => setFormData({...formData, grading_scale_id: value})}
+                  >
+                    <SelectTrigger id="grading_scale_id" className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">
+                        Default scale{defaultScale ? ` (${defaultScale.name})` : ''}
+                      </SelectItem>
+                      {gradingScales.map(scale => (
+                        <SelectItem key={scale.id} value={scale.id}>{scale.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Changing the scale re-grades existing exam results for this course.
+                  </p>
+                </div>
                 <Button type="submit" className="w-full">
                   {editingCourse ? 'Update Course' : 'Add Course'}
                 </Button>
@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Save } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+interface ExamGradebookDialogProps {
+  exam: {
+    id: string;
+    course_id: string;
+    exam_name: string;
+    total_marks: number;
+    results_status: string;
+    courses: { course_code: string } | null;
+  } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface GradebookRow {
+  student_id: string;
+  student_number: string;
+  full_name: string;
+  marks: string;
+  remarks: string;
+  grade: string | null;
+  saved_marks: string;
+  saved_remarks: string;
+}
+
+const ExamGradebookDialog = ({ exam, open, onOpenChange }: ExamGradebookDialogProps) => {
+  const [rows, setRows] = useState<GradebookRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && exam) {
+      fetchGradebook();
+    }
+  }, [open, exam]);
+
+  const fetchGradebook = async () => {
+    if (!exam) return;
+
+    setLoading(true);
+    try {
+      const [enrollmentsResult, resultsResult] = await Promise.all([
+        supabase
+          .from('course_enrollments')
+          .select('students(id, student_id, profiles!students_user_id_fkey(full_name))')
+          .eq('course_id', exam.course_id)
+          .eq('status', 'enrolled'),
+        supabase
+          .from('exam_results')
+          .select('student_id, marks_obtained, grade, remarks')
+          .eq('exam_id', exam.id),
+      ]);
+
+      if (enrollmentsResult.error) throw enrollmentsResult.error;
+      if (resultsResult.error) throw resultsResult.error;
+
+      const results = new Map((resultsResult.data || []).map(result => [result.student_id, result]));
+
+      setRows(
+        (enrollmentsResult.data || [])
+          .flatMap(({ students: student }) => {
+            if (!student) return [];
+            const result = results.get(student.id);
+            const marks = result ? String(result.marks_obtained) : '';
+            return [{
+              student_id: student.id,
+              student_number: student.student_id,
+              full_name: student.profiles?.full_name || 'Unknown Student',
+              marks,
+              remarks: result?.remarks || '',
+              grade: result?.grade || null,
+              saved_marks: marks,
+              saved_remarks: result?.remarks || '',
+            }];
+          })
+          .sort((a, b) => a.student_number.localeCompare(b.student_number))
+      );
+    } catch (error) {
+      console.error('Error fetching gradebook:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to fetch the gradebook",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRow = (studentId: string, changes: Partial<GradebookRow>) => {
+    setRows(current => current.map(row => row.student_id === studentId ? { ...row, ...changes } : row));
+  };
+
+  const getMarksError = (marks: string) => {
+    if (marks.trim() === '' || !exam) return null;
+    const value = Number(marks);
+    if (!Number.isFinite(value)) return 'Not a number';
+    if (value < 0 || value > exam.total_marks) return `0 - ${exam.total_marks}`;
+    if (!/^\d+(\.\d{1,2})?$/.test(marks.trim())) return 'Max 2 decimals';
+    return null;
+  };
+
+  const changedRows = rows.filter(
+    row => row.marks.trim() !== '' && (row.marks !== row.saved_marks || row.remarks !== row.saved_remarks)
+  );
+  const hasErrors = rows.some(row => getMarksError(row.marks));
+
+  const handleSave = async () => {
+    if (!exam || changedRows.length === 0) return;
+
+    if (hasErrors) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Marks",
+        description: `Marks must be between 0 and ${exam.total_marks}`,
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Grades are computed by the database from the marks
+      const { error } = await supabase
+        .from('exam_results')
+        .upsert(
+          changedRows.map(row => ({
+            exam_id: exam.id,
+            student_id: row.student_id,
+            marks_obtained: Number(row.marks),
+            remarks: row.remarks.trim() || null,
+            submitted_at: new Date().toISOString(),
+          })),
+          { onConflict: 'exam_id,student_id' }
+        );
+
+      if (error) throw error;
+      toast({ title: `Saved marks for ${changedRows.length} student${changedRows.length === 1 ? '' : 's'}` });
+      fetchGradebook();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const enteredCount = rows.filter(row => row.saved_marks !== '').length;
+  const locked = exam?.results_status !== 'draft';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Gradebook</DialogTitle>
+          <DialogDescription>
+            {exam?.courses?.course_code} · {exam?.exam_name} · out of {exam?.total_marks} marks.
+            {' '}{enteredCount} of {rows.length} students graded.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="py-6 text-center text-muted-foreground">Loading gradebook...</div>
+        ) : rows.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">
+            No students are enrolled in this course.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {locked && (
+              <p className="text-sm text-muted-foreground">
+                These results are {exam?.results_status}. Move them back to draft to change marks.
+              </p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student ID</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="w-32">Marks</TableHead>
+                  <TableHead>Remarks</TableHead>
+                  <TableHead>Grade</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => {
+                  const marksError = getMarksError(row.marks);
+                  return (
+                    <TableRow key={row.student_id}>
+                      <TableCell className="text-muted-foreground">{row.student_number}</TableCell>
+                      <TableCell className="font-medium">{row.full_name}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={exam?.total_marks}
+                          step="0.01"
+                          value={row.marks}
+                          onChange={(e) => updateRow(row.student_id, { marks: e.target.value })}
+                          disabled={locked}
+                          className={marksError ? 'border-destructive' : ''}
+                          aria-label={`Marks for ${row.student_number}`}
+                        />
+                        {marksError && <p className="text-xs text-destructive mt-1">{marksError}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={row.remarks}
+                          onChange={(e) => updateRow(row.student_id, { remarks: e.target.value })}
+                          disabled={locked}
+                          placeholder="Optional"
+                          aria-label={`Remarks for ${row.student_number}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {row.grade && row.marks === row.saved_marks ? (
+                          <Badge variant="outline">{row.grade}</Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {!locked && (
+              <div className="flex justify-end">
+                <Button onClick={handleSave} disabled={saving || changedRows.length === 0 || hasErrors}>
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? 'Saving...' : `Save ${changedRows.length} Change${changedRows.length === 1 ? '' : 's'}`}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExamGradebookDialog;
@@ -9,17 +9,24 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Edit, Trash2 } from 'lucide-react';
+import { Plus, Edit, Trash2, ClipboardCheck, Upload } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { format } from 'date-fns';
+import ExamGradebookDialog from '@/components/management/ExamGradebookDialog';
+import ExamMarksImportDialog from '@/components/management/ExamMarksImportDialog';
+import AssessmentWeightsDialog from '@/components/management/AssessmentWeightsDialog';
 
 interface Exam {
   id: string;
+  course_id: string;
   exam_name: string;
   exam_type: string;
   exam_date: string;
   duration_minutes: number;
   total_marks: number;
   instructions?: string;
+  results_status: string;
   courses: {
     course_code: string;
     course_name: string;
@@ -30,14 +37,23 @@ interface Course {
   id: string;
   course_code: string;
   course_name: string;
+  instructor_id: string | null;
 }
 
+// Must match check_exam_duration_minutes in the database
+const MIN_DURATION_MINUTES = 15;
+const MAX_DURATION_MINUTES = 300;
+
 const ExamManagement = () => {
+  const { profile } = useAuth();
   const [exams, setExams] = useState<Exam[]>([]);
   const [courses, setCourses] = useState<Course[]>([]);
+  const [staffId, setStaffId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingExam, setEditingExam] = useState<Exam | null>(null);
+  const [gradebookExam, setGradebookExam] = useState<Exam | null>(null);
+  const [importExam, setImportExam] = useState<Exam | null>(null);
 
   const [formData, setFormData] = useState({
     course_id: '',
@@ -54,6 +70,12 @@ const ExamManagement = () => {
     fetchCourses();
   }, []);
 
+  useEffect(() => {
+    if (profile?.role === 'staff') {
+      fetchStaffId();
+    }
+  }, [profile]);
+
   const fetchExams = async () => {
     try {
       const { data, error } = await supabase
@@ -85,7 +107,7 @@ const ExamManagement = () => {
     try {
       const { data, error } = await supabase
         .from('courses')
-        .select('id, course_code, course_name')
+        .select('id, course_code, course_name, instructor_id')
         .order('course_code');
 
       if (error) throw error;
@@ -95,25 +117,80 @@ const ExamManagement = () => {
     }
   };
 
+  const fetchStaffId = async () => {
+    const { data } = await supabase
+      .from('staff')
+      .select('id')
+      .eq('user_id', profile?.id)
+      .maybeSingle();
+    setStaffId(data?.id || null);
+  };
+
+  // Staff may only schedule and edit exams for courses they teach
+  const manageableCourses = profile?.role === 'admin'
+    ? courses
+    : courses.filter(course => staffId && course.instructor_id === staffId);
+
+  const canManageExam = (exam: Exam) =>
+    manageableCourses.some(course => course.id === exam.course_id);
+
+  const validateForm = () => {
+    if (!formData.course_id) return 'Please select a course';
+    if (!manageableCourses.some(course => course.id === formData.course_id)) {
+      return 'You can only schedule exams for courses you teach';
+    }
+    if (!formData.exam_name.trim()) return 'Please enter an exam name';
+    if (!formData.exam_date) return 'Please choose the exam date and time';
+    if (!Number.isInteger(formData.total_marks) || formData.total_marks < 1) {
+      return 'Total marks must be a whole number of at least 1';
+    }
+    if (
+      !Number.isInteger(formData.duration_minutes) ||
+      formData.duration_minutes < MIN_DURATION_MINUTES ||
+      formData.duration_minutes > MAX_DURATION_MINUTES
+    ) {
+      return `Duration must be between ${MIN_DURATION_MINUTES} and ${MAX_DURATION_MINUTES} minutes`;
+    }
+    return null;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const validationError = validateForm();
+    if (validationError) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Exam",
+        description: validationError,
+      });
+      return;
+    }
+
+    // created_by is filled in by the database from the signed-in user
+    const examData = {
+      ...formData,
+      exam_name: formData.exam_name.trim(),
+      exam_date: new Date(formData.exam_date).toISOString(),
+      instructions: formData.instructions.trim() || null,
+    };
+
     try {
       if (editingExam) {
         const { error } = await supabase
           .from('exams')
-          .update(formData)
+          .update(examData)
           .eq('id', editingExam.id);
 
         if (error) throw error;
         toast({ title: "Exam updated successfully" });
       } else {
-        // Note: created_by field needs to be handled properly
-        toast({ 
-          variant: "destructive",
-          title: "Feature Not Available", 
-          description: "Exam creation requires admin setup" 
-        });
-        return;
+        const { error } = await supabase
+          .from('exams')
+          .insert(examData);
+
+        if (error) throw error;
+        toast({ title: "Exam scheduled successfully" });
       }
 
       setDialogOpen(false);
@@ -129,6 +206,29 @@ const ExamManagement = () => {
     }
   };
 
+  const handleResultsStatus = async (exam: Exam, status: string) => {
+    if (status === 'published' && !confirm(`Publish results for ${exam.exam_name}? Students will be notified.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('exams')
+        .update({ results_status: status })
+        .eq('id', exam.id);
+
+      if (error) throw error;
+      toast({
+        title: status === 'published' ? "Results published" : `Results moved to ${status}`,
+      });
+      fetchExams();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this exam?')) return;
 
@@ -165,10 +265,10 @@ const ExamManagement = () => {
   const openEditDialog = (exam: Exam) => {
     setEditingExam(exam);
     setFormData({
-      course_id: '', // We'd need to get this from the exam data
+      course_id: exam.course_id,
       exam_name: exam.exam_name,
       exam_type: exam.exam_type,
-      exam_date: new Date(exam.exam_date).toISOString().slice(0, 16),
+      exam_date: format(new Date(exam.exam_date), "yyyy-MM-dd'T'HH:mm"),
       duration_minutes: exam.duration_minutes,
       total_marks: exam.total_marks,
       instructions: exam.instructions || '',
@@ -176,6 +276,14 @@ const ExamManagement = () => {
     setDialogOpen(true);
   };
 
+  const getResultsStatusColor = (status: string) => {
+    switch (status) {
+      case 'published': return 'default';
+      case 'reviewed': return 'secondary';
+      default: return 'outline';
+    }
+  };
+
   const getExamTypeColor = (type: string) => {
     switch (type) {
       case 'final': return 'destructive';
@@ -198,114 +306,120 @@ const ExamManagement = () => {
             <CardTitle>Exam Management</CardTitle>
             <CardDescription>Schedule and manage examinations</CardDescription>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={() => { resetForm(); setEditingExam(null); }}>
-                <Plus className="w-4 h-4 mr-2" />
-                Schedule Exam
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-md">
-              <DialogHeader>
-                <DialogTitle>{editingExam ? 'Edit' : 'Schedule'} Exam</DialogTitle>
-                <DialogDescription>
-                  {editingExam ? 'Update' : 'Schedule new'} exam details.
-                </DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div>
-                  <Label htmlFor="course_id">Course</Label>
-                  <Select 
-                    value={formData.course_id} 
-                    onValueChange={(value) => setFormData({...formData, course_id: value})}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select course" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {courses.map(course => (
-                        <SelectItem key={course.id} value={course.id}>
-                          {course.course_code} - {course.course_name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div>
-                  <Label htmlFor="exam_name">Exam Name</Label>
-                  <Input
-                    id="exam_name"
-                    value={formData.exam_name}
-                    onChange={(e) => setFormData({...formData, exam_name: e.target.value})}
-                    placeholder="e.g., Midterm Examination"
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="exam_type">Exam Type</Label>
-                  <Select 
-                    value={formData.exam_type} 
-                    onValueChange={(value) => setFormData({...formData, exam_type: value})}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="midterm">Midterm</SelectItem>
-                      <SelectItem value="final">Final</SelectItem>
-                      <SelectItem value="quiz">Quiz</SelectItem>
-                      <SelectItem value="assignment">Assignment</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div>
-                  <Label htmlFor="exam_date">Exam Date & Time</Label>
-                  <Input
-                    id="exam_date"
-                    type="datetime-local"
-                    value={formData.exam_date}
-                    onChange={(e) => setFormData({...formData, exam_date: e.target.value})}
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="duration_minutes">Duration (minutes)</Label>
-                  <Input
-                    id="duration_minutes"
-                    type="number"
-                    min="15"
-                    max="300"
-                    value={formData.duration_minutes}
-                    onChange={(e) => setFormData({...formData, duration_minutes: parseInt(e.target.value)})}
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="total_marks">Total Marks</Label>
-                  <Input
-                    id="total_marks"
-                    type="number"
-                    min="1"
-                    value={formData.total_marks}
-                    onChange={(e) => setFormData({...formData, total_marks: parseInt(e.target.value)})}
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="instructions">Instructions (Optional)</Label>
-                  <Textarea
-                    id="instructions"
-                    value={formData.instructions}
-                    onChange={(e) => setFormData({...formData, instructions: e.target.value})}
-                    placeholder="Exam instructions..."
-                  />
-                </div>
-                <Button type="submit" className="w-full">
-                  {editingExam ? 'Update' : 'Schedule'} Exam
+          <div className="flex gap-2">
+            <AssessmentWeightsDialog courses={manageableCourses} />
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button
+                  onClick={() => { resetForm(); setEditingExam(null); }}
+                  disabled={manageableCourses.length === 0}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Schedule Exam
                 </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent className="max-w-md">
+                <DialogHeader>
+                  <DialogTitle>{editingExam ? 'Edit' : 'Schedule'} Exam</DialogTitle>
+                  <DialogDescription>
+                    {editingExam ? 'Update' : 'Schedule new'} exam details.
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div>
+                    <Label htmlFor="course_id">Course</Label>
+                    <Select 
+                      value={formData.course_id} 
+                      onValueChange={(value) => setFormData({...formData, course_id: value})}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select course" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {manageableCourses.map(course => (
+                          <SelectItem key={course.id} value={course.id}>
+                            {course.course_code} - {course.course_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="exam_name">Exam Name</Label>
+                    <Input
+                      id="exam_name"
+                      value={formData.exam_name}
+                      onChange={(e) => setFormData({...formData, exam_name: e.target.value})}
+                      placeholder="e.g., Midterm Examination"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="exam_type">Exam Type</Label>
+                    <Select 
+                      value={formData.exam_type} 
+                      onValueChange={(value) => setFormData({...formData, exam_type: value})}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="midterm">Midterm</SelectItem>
+                        <SelectItem value="final">Final</SelectItem>
+                        <SelectItem value="quiz">Quiz</SelectItem>
+                        <SelectItem value="assignment">Assignment</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="exam_date">Exam Date & Time</Label>
+                    <Input
+                      id="exam_date"
+                      type="datetime-local"
+                      value={formData.exam_date}
+                      onChange={(e) => setFormData({...formData, exam_date: e.target.value})}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="duration_minutes">Duration (minutes)</Label>
+                    <Input
+                      id="duration_minutes"
+                      type="number"
+                      min={MIN_DURATION_MINUTES}
+                      max={MAX_DURATION_MINUTES}
+                      value={formData.duration_minutes}
+                      onChange={(e) => setFormData({...formData, duration_minutes: parseInt(e.target.value)})}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="total_marks">Total Marks</Label>
+                    <Input
+                      id="total_marks"
+                      type="number"
+                      min="1"
+                      value={formData.total_marks}
+                      onChange={(e) => setFormData({...formData, total_marks: parseInt(e.target.value)})}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="instructions">Instructions (Optional)</Label>
+                    <Textarea
+                      id="instructions"
+                      value={formData.instructions}
+                      onChange={(e) => setFormData({...formData, instructions: e.target.value})}
+                      placeholder="Exam instructions..."
+                    />
+                  </div>
+                  <Button type="submit" className="w-full">
+                    {editingExam ? 'Update' : 'Schedule'} Exam
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -318,6 +432,7 @@ const ExamManagement = () => {
               <TableHead>Date</TableHead>
               <TableHead>Duration</TableHead>
               <TableHead>Marks</TableHead>
+              <TableHead>Results</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
           </TableHeader>
@@ -334,12 +449,58 @@ const ExamManagement = () => {
                 <TableCell>{new Date(exam.exam_date).toLocaleDateString()}</TableCell>
                 <TableCell>{exam.duration_minutes} mins</TableCell>
                 <TableCell>{exam.total_marks}</TableCell>
+                <TableCell>
+                  <div className="flex flex-col items-start gap-1">
+                    <Badge variant={getResultsStatusColor(exam.results_status)} className="capitalize">
+                      {exam.results_status}
+                    </Badge>
+                    {exam.results_status === 'draft' && canManageExam(exam) && (
+                      <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleResultsStatus(exam, 'reviewed')}>
+                        Mark reviewed
+                      </Button>
+                    )}
+                    {exam.results_status === 'reviewed' && profile?.role === 'admin' && (
+                      <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleResultsStatus(exam, 'published')}>
+                        Publish
+                      </Button>
+                    )}
+                    {exam.results_status === 'reviewed' && canManageExam(exam) && (
+                      <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleResultsStatus(exam, 'draft')}>
+                        Back to draft
+                      </Button>
+                    )}
+                    {exam.results_status === 'published' && profile?.role === 'admin' && (
+                      <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleResultsStatus(exam, 'draft')}>
+                        Unpublish
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
                 <TableCell>
                   <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Gradebook"
+                      onClick={() => setGradebookExam(exam)}
+                      disabled={!canManageExam(exam)}
+                    >
+                      <ClipboardCheck className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Import Marks"
+                      onClick={() => setImportExam(exam)}
+                      disabled={!canManageExam(exam) || exam.results_status !== 'draft'}
+                    >
+                      <Upload className="w-4 h-4" />
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
                       onClick={() => openEditDialog(exam)}
+                      disabled={!canManageExam(exam)}
                     >
                       <Edit className="w-4 h-4" />
                     </Button>
@@ -347,6 +508,7 @@ const ExamManagement = () => {
                       variant="destructive"
                       size="sm"
                       onClick={() => handleDelete(exam.id)}
+                      disabled={!canManageExam(exam)}
                     >
                       <Trash2 className="w-4 h-4" />
                     </Button>
@@ -362,6 +524,18 @@ const ExamManagement = () => {
           </div>
         )}
       </CardContent>
+
+      <ExamGradebookDialog
+        exam={gradebookExam}
+        open={!!gradebookExam}
+        onOpenChange={(open) => !open && setGradebookExam(null)}
+      />
+
+      <ExamMarksImportDialog
+        exam={importExam}
+        open={!!importExam}
+        onOpenChange={(open) => !open && setImportExam(null)}
+      />
     </Card>
   );
 };
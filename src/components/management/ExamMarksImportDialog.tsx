@@ -0,0 +1,316 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { parseCsv } from '@/lib/spreadsheet';
+
+interface ExamMarksImportDialogProps {
+  exam: {
+    id: string;
+    course_id: string;
+    exam_name: string;
+    total_marks: number;
+    courses: { course_code: string } | null;
+  } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface RosterStudent {
+  id: string;
+  full_name: string;
+  existing_marks: number | null;
+}
+
+interface ImportRow {
+  line: number;
+  student_number: string;
+  marks: string;
+  // null when the file has no remarks column, so existing remarks are kept
+  remarks: string | null;
+  student: RosterStudent | null;
+  issue: string | null;
+}
+
+// Accepted spellings of each column, compared without case, spaces or punctuation
+const STUDENT_ID_HEADERS = ['studentid', 'studentnumber', 'id'];
+const MARKS_HEADERS = ['marks', 'marksobtained', 'mark', 'score'];
+const REMARKS_HEADERS = ['remarks', 'remark', 'comments', 'comment'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const ExamMarksImportDialog = ({ exam, open, onOpenChange }: ExamMarksImportDialogProps) => {
+  const [roster, setRoster] = useState<Map<string, RosterStudent>>(new Map());
+  const [rosterLoaded, setRosterLoaded] = useState(false);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    setRows([]);
+    setFileName('');
+    setRosterLoaded(false);
+    if (open && exam) {
+      fetchRoster();
+    }
+  }, [open, exam]);
+
+  const fetchRoster = async () => {
+    if (!exam) return;
+
+    setLoading(true);
+    try {
+      const [enrollmentsResult, resultsResult] = await Promise.all([
+        supabase
+          .from('course_enrollments')
+          .select('students(id, student_id, profiles!students_user_id_fkey(full_name))')
+          .eq('course_id', exam.course_id)
+          .eq('status', 'enrolled'),
+        supabase
+          .from('exam_results')
+          .select('student_id, marks_obtained')
+          .eq('exam_id', exam.id),
+      ]);
+
+      if (enrollmentsResult.error) throw enrollmentsResult.error;
+      if (resultsResult.error) throw resultsResult.error;
+
+      const existingMarks = new Map(
+        (resultsResult.data || []).map(result => [result.student_id, result.marks_obtained])
+      );
+
+      setRoster(new Map(
+        (enrollmentsResult.data || []).flatMap(({ students: student }) => student ? [[
+          student.student_id.toUpperCase(),
+          {
+            id: student.id,
+            full_name: student.profiles?.full_name || 'Unknown Student',
+            existing_marks: existingMarks.get(student.id) ?? null,
+          },
+        ] as const] : [])
+      ));
+      setRosterLoaded(true);
+    } catch (error) {
+      console.error('Error fetching roster:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to fetch the course roster",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getMarksIssue = (marks: string) => {
+    if (!exam) return null;
+    if (marks === '') return 'Missing marks';
+    if (!/^\d+(\.\d{1,2})?$/.test(marks)) return 'Marks must be a number with at most 2 decimals';
+    if (Number(marks) > exam.total_marks) return `Marks above total of ${exam.total_marks}`;
+    return null;
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      // Cells stay text so student IDs like 0042 survive
+      const [headers = [], ...lines] = parseCsv(await file.text());
+
+      const normalized = headers.map(header => normalizeHeader(String(header)));
+      const studentColumn = normalized.findIndex(header => STUDENT_ID_HEADERS.includes(header));
+      const marksColumn = normalized.findIndex(header => MARKS_HEADERS.includes(header));
+      const remarksColumn = normalized.findIndex(header => REMARKS_HEADERS.includes(header));
+
+      if (studentColumn === -1 || marksColumn === -1) {
+        throw new Error('The CSV needs a header row with student_id and marks columns');
+      }
+
+      const parsed = lines
+        .map((cells, index) => ({
+          line: index + 2,
+          student_number: String(cells[studentColumn] ?? '').trim(),
+          marks: String(cells[marksColumn] ?? '').trim(),
+          remarks: remarksColumn === -1 ? null : String(cells[remarksColumn] ?? '').trim(),
+        }))
+        .filter(row => row.student_number !== '' || row.marks !== '');
+
+      const occurrences = new Map<string, number>();
+      for (const row of parsed) {
+        const key = row.student_number.toUpperCase();
+        occurrences.set(key, (occurrences.get(key) || 0) + 1);
+      }
+
+      // Tell IDs that don't exist apart from students who aren't in this course
+      const unmatched = parsed
+        .map(row => row.student_number)
+        .filter(number => number !== '' && !roster.has(number.toUpperCase()));
+      const knownStudents = new Set<string>();
+      if (unmatched.length > 0) {
+        const { data, error } = await supabase
+          .from('students')
+          .select('student_id')
+          .in('student_id', Array.from(new Set(unmatched.flatMap(number => [number, number.toUpperCase()]))));
+        if (error) throw error;
+        for (const student of data || []) knownStudents.add(student.student_id.toUpperCase());
+      }
+
+      setRows(parsed.map(row => {
+        const key = row.student_number.toUpperCase();
+        const student = roster.get(key) || null;
+        let issue: string | null = null;
+
+        if (!row.student_number) issue = 'Missing student ID';
+        else if ((occurrences.get(key) || 0) > 1) issue = 'Duplicate student ID';
+        else if (!student && !knownStudents.has(key)) issue = 'Unknown student ID';
+        else if (!student) issue = 'Not enrolled in this course';
+        else issue = getMarksIssue(row.marks);
+
+        return { ...row, student, issue };
+      }));
+      setFileName(file.name);
+    } catch (error) {
+      setRows([]);
+      setFileName('');
+      toast({
+        variant: "destructive",
+        title: "Could not read file",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const validRows = rows.filter(row => !row.issue && row.student);
+  const problemCount = rows.length - validRows.length;
+  const overwriteCount = validRows.filter(row => row.student?.existing_marks !== null).length;
+
+  const handleImport = async () => {
+    if (!exam || validRows.length === 0) return;
+
+    setImporting(true);
+    try {
+      // Grades are computed by the database from the marks
+      const { error } = await supabase
+        .from('exam_results')
+        .upsert(
+          validRows.flatMap(row => row.student ? [{
+            exam_id: exam.id,
+            student_id: row.student.id,
+            marks_obtained: Number(row.marks),
+            ...(row.remarks !== null && { remarks: row.remarks || null }),
+            submitted_at: new Date().toISOString(),
+          }] : []),
+          { onConflict: 'exam_id,student_id' }
+        );
+
+      if (error) throw error;
+      toast({
+        title: "Marks Imported",
+        description: `Saved marks for ${validRows.length} student${validRows.length === 1 ? '' : 's'}`
+          + (problemCount > 0 ? `; ${problemCount} row${problemCount === 1 ? '' : 's'} skipped` : ''),
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Marks</DialogTitle>
+          <DialogDescription>
+            {exam?.courses?.course_code} · {exam?.exam_name} · out of {exam?.total_marks} marks.
+            Upload a CSV with student_id and marks columns, and optionally remarks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="marks_file">CSV File</Label>
+            <Input
+              id="marks_file"
+              type="file"
+              accept=".csv,text/csv"
+              disabled={loading || !rosterLoaded}
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {fileName && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">{fileName}:</span>
+                <Badge variant="default">{validRows.length} ready</Badge>
+                {problemCount > 0 && <Badge variant="destructive">{problemCount} with problems</Badge>}
+                {overwriteCount > 0 && <Badge variant="secondary">{overwriteCount} will replace existing marks</Badge>}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Student ID</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Marks</TableHead>
+                    <TableHead>Current</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.line} className={row.issue ? 'bg-destructive/5' : ''}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell className="font-mono text-sm">{row.student_number || '-'}</TableCell>
+                      <TableCell>{row.student?.full_name || '-'}</TableCell>
+                      <TableCell>{row.marks || '-'}</TableCell>
+                      <TableCell className="text-muted-foreground">{row.student?.existing_marks ?? '-'}</TableCell>
+                      <TableCell>
+                        {row.issue ? (
+                          <span className="text-sm text-destructive">{row.issue}</span>
+                        ) : (
+                          <Badge variant="outline">OK</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {rows.length === 0 && (
+                <div className="py-6 text-center text-muted-foreground">The file has no data rows.</div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                <Button onClick={handleImport} disabled={importing || validRows.length === 0}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  {importing ? 'Importing...' : `Import ${validRows.length} Result${validRows.length === 1 ? '' : 's'}`}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExamMarksImportDialog;
@@ -0,0 +1,398 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Save, Star, Trash2, Scale } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+interface GradingScaleBand {
+  min_percentage: number;
+  letter: string;
+  grade_points: number;
+  is_pass: boolean;
+}
+
+interface GradingScale {
+  id: string;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  grading_scale_bands: GradingScaleBand[];
+}
+
+interface BandDraft {
+  key: number;
+  min_percentage: string;
+  letter: string;
+  grade_points: string;
+  is_pass: boolean;
+}
+
+let nextBandKey = 0;
+
+const toDraft = (band: GradingScaleBand): BandDraft => ({
+  key: nextBandKey++,
+  min_percentage: String(band.min_percentage),
+  letter: band.letter,
+  grade_points: String(band.grade_points),
+  is_pass: band.is_pass,
+});
+
+const GradingScaleManagement = () => {
+  const [scales, setScales] = useState<GradingScale[]>([]);
+  const [selectedScaleId, setSelectedScaleId] = useState('');
+  const [bands, setBands] = useState<BandDraft[]>([]);
+  const [newScaleName, setNewScaleName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchScales();
+  }, []);
+
+  useEffect(() => {
+    const scale = scales.find(s => s.id === selectedScaleId);
+    setBands(
+      [...(scale?.grading_scale_bands || [])]
+        .sort((a, b) => b.min_percentage - a.min_percentage)
+        .map(toDraft)
+    );
+  }, [selectedScaleId, scales]);
+
+  const fetchScales = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('grading_scales')
+        .select('id, name, description, is_default, grading_scale_bands(min_percentage, letter, grade_points, is_pass)')
+        .order('name');
+
+      if (error) throw error;
+      setScales(data || []);
+      setSelectedScaleId((current) =>
+        (data || []).some(s => s.id === current)
+          ? current
+          : data?.find(s => s.is_default)?.id || data?.[0]?.id || ''
+      );
+    } catch (error) {
+      console.error('Error fetching grading scales:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to fetch grading scales",
+      });
+    }
+  };
+
+  const updateBand = (key: number, changes: Partial<BandDraft>) => {
+    setBands(current => current.map(band => band.key === key ? { ...band, ...changes } : band));
+  };
+
+  const addBand = () => {
+    setBands(current => [
+      ...current,
+      { key: nextBandKey++, min_percentage: '', letter: '', grade_points: '0', is_pass: true },
+    ]);
+  };
+
+  const validateBands = () => {
+    const minimums = new Set<number>();
+    const letters = new Set<string>();
+
+    for (const band of bands) {
+      const min = Number(band.min_percentage);
+      const points = Number(band.grade_points);
+      const letter = band.letter.trim();
+
+      if (band.min_percentage.trim() === '' || !Number.isFinite(min) || min < 0 || min > 100) {
+        return 'Every band needs a minimum percentage between 0 and 100';
+      }
+      if (!letter) return 'Every band needs a letter';
+      if (!Number.isFinite(points) || points < 0) return 'Grade points cannot be negative';
+      if (minimums.has(min)) return `More than one band starts at ${min}%`;
+      if (letters.has(letter)) return `The letter ${letter} is used more than once`;
+
+      minimums.add(min);
+      letters.add(letter);
+    }
+
+    if (!minimums.has(0)) return 'The lowest band must start at 0%';
+    return null;
+  };
+
+  const handleSaveBands = async () => {
+    const validationError = validateBands();
+    if (validationError) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Grading Scale",
+        description: validationError,
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('set_grading_scale_bands', {
+        _grading_scale_id: selectedScaleId,
+        _bands: bands.map(band => ({
+          min_percentage: Number(band.min_percentage),
+          letter: band.letter.trim(),
+          grade_points: Number(band.grade_points),
+          is_pass: band.is_pass,
+        })),
+      });
+
+      if (error) throw error;
+      toast({
+        title: "Grading scale saved",
+        description: "Existing results for courses using this scale have been re-graded",
+      });
+      fetchScales();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateScale = async () => {
+    const name = newScaleName.trim();
+    if (!name) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('grading_scales')
+        .insert({ name })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      // New scales start with a single failing band so every percentage has a grade
+      const { error: bandsError } = await supabase.rpc('set_grading_scale_bands', {
+        _grading_scale_id: data.id,
+        _bands: [{ min_percentage: 0, letter: 'F', grade_points: 0, is_pass: false }],
+      });
+
+      if (bandsError) throw bandsError;
+      toast({ title: `Grading scale ${name} created` });
+      setNewScaleName('');
+      setSelectedScaleId(data.id);
+      fetchScales();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleSetDefault = async () => {
+    try {
+      // Only one scale can be the default at a time
+      const { error: clearError } = await supabase
+        .from('grading_scales')
+        .update({ is_default: false })
+        .eq('is_default', true);
+
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from('grading_scales')
+        .update({ is_default: true })
+        .eq('id', selectedScaleId);
+
+      if (error) throw error;
+      toast({ title: "Default grading scale updated" });
+      fetchScales();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleDeleteScale = async () => {
+    if (!confirm('Delete this grading scale? Courses using it will fall back to the default scale.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('grading_scales')
+        .delete()
+        .eq('id', selectedScaleId);
+
+      if (error) throw error;
+      toast({ title: "Grading scale deleted" });
+      setSelectedScaleId('');
+      fetchScales();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const selectedScale = scales.find(s => s.id === selectedScaleId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5" />
+          Grading Scales
+        </CardTitle>
+        <CardDescription>
+          Percentage bands used to grade exam results. Courses without their own scale use the default.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="grading_scale">Scale</Label>
+            <Select value={selectedScaleId} onValueChange={setSelectedScaleId}>
+              <SelectTrigger id="grading_scale">
+                <SelectValue placeholder="Select grading scale" />
+              </SelectTrigger>
+              <SelectContent>
+                {scales.map(scale => (
+                  <SelectItem key={scale.id} value={scale.id}>
+                    {scale.name}{scale.is_default ? ' (default)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="new_scale_name">New Scale</Label>
+            <div className="flex gap-2">
+              <Input
+                id="new_scale_name"
+                value={newScaleName}
+                onChange={(e) => setNewScaleName(e.target.value)}
+                placeholder="e.g., Postgraduate"
+              />
+              <Button variant="outline" onClick={handleCreateScale} disabled={!newScaleName.trim()}>
+                <Plus className="w-4 h-4 mr-2" />
+                Create
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {selectedScale && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {selectedScale.is_default ? (
+                <Badge>Default</Badge>
+              ) : (
+                <>
+                  <Button variant="outline" size="sm" onClick={handleSetDefault}>
+                    <Star className="w-4 h-4 mr-2" />
+                    Make Default
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleDeleteScale}>
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete Scale
+                  </Button>
+                </>
+              )}
+              {selectedScale.description && (
+                <span className="text-sm text-muted-foreground">{selectedScale.description}</span>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>From (%)</TableHead>
+                  <TableHead>Letter</TableHead>
+                  <TableHead>Grade Points</TableHead>
+                  <TableHead>Pass</TableHead>
+                  <TableHead className="w-10"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bands.map((band) => (
+                  <TableRow key={band.key}>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={band.min_percentage}
+                        onChange={(e) => updateBand(band.key, { min_percentage: e.target.value })}
+                        aria-label="Minimum percentage"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={band.letter}
+                        onChange={(e) => updateBand(band.key, { letter: e.target.value })}
+                        aria-label="Letter grade"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={band.grade_points}
+                        onChange={(e) => updateBand(band.key, { grade_points: e.target.value })}
+                        aria-label="Grade points"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        checked={band.is_pass}
+                        onCheckedChange={(checked) => updateBand(band.key, { is_pass: checked === true })}
+                        aria-label="Passing grade"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setBands(current => current.filter(b => b.key !== band.key))}
+                        aria-label="Remove band"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={addBand}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Band
+              </Button>
+              <Button onClick={handleSaveBands} disabled={saving || bands.length === 0}>
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Bands'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GradingScaleManagement;
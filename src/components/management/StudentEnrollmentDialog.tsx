@@ -0,0 +1,267 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Plus } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+interface Enrollment {
+  id: string;
+  course_id: string;
+  status: string;
+  enrolled_at: string;
+  courses: {
+    course_code: string;
+    course_name: string;
+  } | null;
+}
+
+interface Course {
+  id: string;
+  course_code: string;
+  course_name: string;
+}
+
+interface StudentEnrollmentDialogProps {
+  student: {
+    id: string;
+    student_id: string;
+    profiles: { full_name: string } | null;
+  } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const StudentEnrollmentDialog = ({ student, open, onOpenChange }: StudentEnrollmentDialogProps) => {
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [newCourseId, setNewCourseId] = useState('');
+  const [newStatus, setNewStatus] = useState('enrolled');
+
+  useEffect(() => {
+    if (open && student) {
+      fetchEnrollments();
+      fetchCourses();
+    }
+  }, [open, student]);
+
+  const fetchEnrollments = async () => {
+    if (!student) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('course_enrollments')
+        .select(`
+          id,
+          course_id,
+          status,
+          enrolled_at,
+          courses (
+            course_code,
+            course_name
+          )
+        `)
+        .eq('student_id', student.id)
+        .order('enrolled_at', { ascending: false });
+
+      if (error) throw error;
+      setEnrollments(data || []);
+    } catch (error) {
+      console.error('Error fetching enrollments:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to fetch enrollments",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCourses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('courses')
+        .select('id, course_code, course_name')
+        .order('course_code');
+
+      if (error) throw error;
+      setCourses(data || []);
+    } catch (error) {
+      console.error('Error fetching courses:', error);
+    }
+  };
+
+  const handleEnroll = async () => {
+    if (!student || !newCourseId) return;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      // Re-enrolling a dropped student reuses their existing row
+      const { error } = await supabase
+        .from('course_enrollments')
+        .upsert({
+          student_id: student.id,
+          course_id: newCourseId,
+          status: newStatus,
+          enrolled_at: new Date().toISOString(),
+          dropped_at: null,
+          enrolled_by: user?.id,
+        }, { onConflict: 'student_id,course_id' });
+
+      if (error) throw error;
+      toast({ title: newStatus === 'waitlisted' ? "Student added to waitlist" : "Student enrolled successfully" });
+      setNewCourseId('');
+      setNewStatus('enrolled');
+      fetchEnrollments();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleStatusChange = async (enrollment: Enrollment, status: string) => {
+    try {
+      const { error } = await supabase
+        .from('course_enrollments')
+        .update({
+          status,
+          dropped_at: status === 'dropped' ? new Date().toISOString() : null,
+        })
+        .eq('id', enrollment.id);
+
+      if (error) throw error;
+      toast({ title: "Enrollment updated successfully" });
+      fetchEnrollments();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const getStatusVariant = (status: string) => {
+    switch (status) {
+      case 'enrolled': return 'default';
+      case 'waitlisted': return 'secondary';
+      case 'dropped': return 'destructive';
+      default: return 'outline';
+    }
+  };
+
+  const activeCourseIds = enrollments
+    .filter(e => e.status !== 'dropped')
+    .map(e => e.course_id);
+  const availableCourses = courses.filter(c => !activeCourseIds.includes(c.id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Course Enrollments</DialogTitle>
+          <DialogDescription>
+            Manage the courses {student?.profiles?.full_name || 'this student'} ({student?.student_id}) is enrolled in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-2 items-end">
+          <div className="flex-1 w-full">
+            <Label htmlFor="enroll_course">Course</Label>
+            <Select value={newCourseId} onValueChange={setNewCourseId}>
+              <SelectTrigger id="enroll_course">
+                <SelectValue placeholder="Select course" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableCourses.map(course => (
+                  <SelectItem key={course.id} value={course.id}>
+                    {course.course_code} - {course.course_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-full sm:w-40">
+            <Label htmlFor="enroll_status">Status</Label>
+            <Select value={newStatus} onValueChange={setNewStatus}>
+              <SelectTrigger id="enroll_status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="enrolled">Enrolled</SelectItem>
+                <SelectItem value="waitlisted">Waitlisted</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleEnroll} disabled={!newCourseId}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="py-6 text-center text-muted-foreground">Loading enrollments...</div>
+        ) : enrollments.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">
+            This student is not enrolled in any courses yet.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Course</TableHead>
+                <TableHead>Enrolled</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Change Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {enrollments.map((enrollment) => (
+                <TableRow key={enrollment.id}>
+                  <TableCell>
+                    <div className="font-medium">{enrollment.courses?.course_code || 'Unknown Course'}</div>
+                    <div className="text-sm text-muted-foreground">{enrollment.courses?.course_name || ''}</div>
+                  </TableCell>
+                  <TableCell>{new Date(enrollment.enrolled_at).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <Badge variant={getStatusVariant(enrollment.status)} className="capitalize">
+                      {enrollment.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={enrollment.status}
+                      onValueChange={(value) => handleStatusChange(enrollment, value)}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="enrolled">Enrolled</SelectItem>
+                        <SelectItem value="waitlisted">Waitlisted</SelectItem>
+                        <SelectItem value="dropped">Dropped</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StudentEnrollmentDialog;
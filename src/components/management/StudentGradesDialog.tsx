@@ -0,0 +1,30 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import CourseGrades from '@/components/student/CourseGrades';
+
+interface StudentGradesDialogProps {
+  student: {
+    id: string;
+    student_id: string;
+    profiles: { full_name: string } | null;
+  } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const StudentGradesDialog = ({ student, open, onOpenChange }: StudentGradesDialogProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Grades</DialogTitle>
+          <DialogDescription>
+            Final course grades and GPA for {student?.profiles?.full_name || 'this student'} ({student?.student_id})
+          </DialogDescription>
+        </DialogHeader>
+        {student && <CourseGrades studentId={student.id} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StudentGradesDialog;
@@ -9,8 +9,11 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Edit, Trash2 } from 'lucide-react';
+import { Edit, Trash2, BookOpen, GraduationCap } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import StudentEnrollmentDialog from '@/components/management/StudentEnrollmentDialog';
+import StudentGradesDialog from '@/components/management/StudentGradesDialog';
 
 interface Student {
   id: string;
@@ -35,6 +38,7 @@ interface Student {
 }
 
 const StudentManagement = () => {
+  const { profile } = useAuth();
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -42,6 +46,8 @@ const StudentManagement = () => {
   const [deletingStudent, setDeletingStudent] = useState<Student | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
+  const [enrollmentStudent, setEnrollmentStudent] = useState<Student | null>(null);
+  const [gradesStudent, setGradesStudent] = useState<Student | null>(null);
 
   const [formData, setFormData] = useState({
     student_id: '',
@@ -327,12 +333,30 @@ const StudentManagement = () => {
                         <Edit className="w-4 h-4" />
                       </Button>
                       <Button
-                        variant="destructive"
+                        variant="outline"
                         size="sm"
-                        onClick={() => handleDeleteClick(student)}
+                        onClick={() => setEnrollmentStudent(student)}
+                        title="Manage enrollments"
                       >
-                        <Trash2 className="w-4 h-4" />
+                        <BookOpen className="w-4 h-4" />
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setGradesStudent(student)}
+                        title="View grades"
+                      >
+                        <GraduationCap className="w-4 h-4" />
+                      </Button>
+                      {profile?.role === 'admin' && (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleDeleteClick(student)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -347,6 +371,18 @@ const StudentManagement = () => {
         </CardContent>
       </Card>
 
+      <StudentEnrollmentDialog
+        student={enrollmentStudent}
+        open={!!enrollmentStudent}
+        onOpenChange={(open) => !open && setEnrollmentStudent(null)}
+      />
+
+      <StudentGradesDialog
+        student={gradesStudent}
+        open={!!gradesStudent}
+        onOpenChange={(open) => !open && setGradesStudent(null)}
+      />
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
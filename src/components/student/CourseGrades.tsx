@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { GraduationCap } from 'lucide-react';
+import TranscriptDownloadButton from '@/components/student/TranscriptDownloadButton';
+
+interface CourseGrade {
+  course_id: string;
+  course_code: string;
+  course_name: string;
+  credits: number;
+  semester: number;
+  final_percentage: number;
+  letter: string | null;
+  grade_points: number | null;
+  is_pass: boolean | null;
+  graded_exams: number;
+  total_exams: number;
+}
+
+interface SemesterGpa {
+  semester: number;
+  credits: number;
+  gpa: number | null;
+  cumulative_credits: number;
+  cumulative_gpa: number | null;
+}
+
+interface CourseGradesProps {
+  studentId: string;
+}
+
+const formatGpa = (gpa: number | null | undefined) => gpa == null ? '-' : Number(gpa).toFixed(2);
+
+const CourseGrades = ({ studentId }: CourseGradesProps) => {
+  const [grades, setGrades] = useState<CourseGrade[]>([]);
+  const [gpa, setGpa] = useState<SemesterGpa[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchGrades();
+  }, [studentId]);
+
+  const fetchGrades = async () => {
+    setLoading(true);
+    try {
+      const [gradesResult, gpaResult] = await Promise.all([
+        supabase.rpc('get_student_course_grades', { _student_id: studentId }),
+        supabase.rpc('get_student_gpa', { _student_id: studentId }),
+      ]);
+
+      if (gradesResult.error) throw gradesResult.error;
+      if (gpaResult.error) throw gpaResult.error;
+      setGrades(gradesResult.data || []);
+      setGpa(gpaResult.data || []);
+    } catch (error) {
+      console.error('Error fetching course grades:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 space-y-2">
+          <Skeleton className="h-4 w-1/3" />
+          <Skeleton className="h-3 w-full" />
+          <Skeleton className="h-3 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const latest = gpa[gpa.length - 1];
+  const semesters = Array.from(new Set(grades.map(grade => grade.semester)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GraduationCap className="w-5 h-5" />
+              Course Grades
+            </CardTitle>
+            <CardDescription>
+              Final grades combine exam results using each course's assessment weights
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <p className="text-sm text-muted-foreground">Cumulative GPA</p>
+              <p className="text-2xl font-bold text-primary">{formatGpa(latest?.cumulative_gpa)}</p>
+              <p className="text-xs text-muted-foreground">{latest?.cumulative_credits || 0} credits completed</p>
+            </div>
+            <TranscriptDownloadButton studentId={studentId} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {grades.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">No graded courses yet</p>
+        ) : (
+          semesters.map(semester => {
+            const semesterGpa = gpa.find(entry => entry.semester === semester);
+            return (
+              <div key={semester} className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <h3 className="font-semibold">Semester {semester}</h3>
+                  <span className="text-sm text-muted-foreground">
+                    GPA {formatGpa(semesterGpa?.gpa)}
+                    {semesterGpa ? ` · ${semesterGpa.credits} credits` : ''}
+                  </span>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Course</TableHead>
+                      <TableHead>Credits</TableHead>
+                      <TableHead>Score</TableHead>
+                      <TableHead>Grade</TableHead>
+                      <TableHead>Points</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {grades.filter(grade => grade.semester === semester).map(grade => (
+                      <TableRow key={grade.course_id}>
+                        <TableCell>
+                          <div className="font-medium">{grade.course_code}</div>
+                          <div className="text-sm text-muted-foreground">{grade.course_name}</div>
+                        </TableCell>
+                        <TableCell>{grade.credits}</TableCell>
+                        <TableCell>{Number(grade.final_percentage).toFixed(1)}%</TableCell>
+                        <TableCell>
+                          <Badge variant={grade.is_pass === false ? 'destructive' : 'outline'}>
+                            {grade.letter || 'N/A'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{formatGpa(grade.grade_points)}</TableCell>
+                        <TableCell>
+                          {grade.graded_exams < grade.total_exams ? (
+                            <Badge variant="secondary">
+                              In progress ({grade.graded_exams}/{grade.total_exams})
+                            </Badge>
+                          ) : (
+                            <Badge variant="default">Final</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CourseGrades;
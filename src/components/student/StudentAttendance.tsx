@@ -1,19 +1,302 @@
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { AlertTriangle } from 'lucide-react';
+import { addDays, format, startOfWeek, subWeeks } from 'date-fns';
+
+interface CourseSummary {
+  course_id: string;
+  course_code: string;
+  course_name: string;
+  scheduled_classes: number;
+  attended_classes: number;
+  late_classes: number;
+  absent_classes: number;
+  attendance_percentage: number | null;
+}
+
+interface AttendanceRecord {
+  id: string;
+  status: string;
+  check_in_time: string | null;
+  check_out_time: string | null;
+  qr_codes: {
+    session_name: string;
+    session_date: string;
+    courses: {
+      course_code: string;
+    } | null;
+  } | null;
+}
+
+const HEATMAP_WEEKS = 16;
+
+// A day with several sessions shows the worst status
+const STATUS_RANK: Record<string, number> = { present: 1, late: 2, absent: 3 };
+
+const HEATMAP_COLORS: Record<string, string> = {
+  present: 'bg-green-500',
+  late: 'bg-amber-400',
+  absent: 'bg-red-500',
+};
 
 const StudentAttendance = () => {
+  const { profile } = useAuth();
+  const [summary, setSummary] = useState<CourseSummary[]>([]);
+  const [records, setRecords] = useState<AttendanceRecord[]>([]);
+  const [minimumPercentage, setMinimumPercentage] = useState(75);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (profile) {
+      fetchAttendance();
+    }
+  }, [profile]);
+
+  const fetchAttendance = async () => {
+    try {
+      const { data: student } = await supabase
+        .from('students')
+        .select('id')
+        .eq('user_id', profile?.id)
+        .maybeSingle();
+
+      if (!student) return;
+
+      const [summaryResult, recordsResult, settingResult] = await Promise.all([
+        supabase.rpc('get_my_attendance_summary'),
+        supabase
+          .from('attendance_records')
+          .select(`
+            id,
+            status,
+            check_in_time,
+            check_out_time,
+            qr_codes (
+              session_name,
+              session_date,
+              courses (
+                course_code
+              )
+            )
+          `)
+          .eq('student_id', student.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('app_settings')
+          .select('value')
+          .eq('key', 'min_attendance_percentage')
+          .maybeSingle(),
+      ]);
+
+      if (summaryResult.error) throw summaryResult.error;
+      if (recordsResult.error) throw recordsResult.error;
+
+      setSummary(summaryResult.data || []);
+      setRecords(recordsResult.data || []);
+      if (settingResult.data) {
+        setMinimumPercentage(Number(settingResult.data.value));
+      }
+    } catch (error) {
+      console.error('Error fetching attendance:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'present': return 'default';
+      case 'late': return 'secondary';
+      case 'absent': return 'destructive';
+      default: return 'outline';
+    }
+  };
+
+  const statusByDay = new Map<string, string>();
+  for (const record of records) {
+    const day = record.qr_codes?.session_date;
+    if (!day) continue;
+    const current = statusByDay.get(day);
+    if (!current || (STATUS_RANK[record.status] || 0) > (STATUS_RANK[current] || 0)) {
+      statusByDay.set(day, record.status);
+    }
+  }
+
+  const firstDay = startOfWeek(subWeeks(new Date(), HEATMAP_WEEKS - 1));
+  const heatmapWeeks = Array.from({ length: HEATMAP_WEEKS }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => addDays(firstDay, week * 7 + day))
+  );
+
+  const coursesBelowMinimum = summary.filter(
+    course => course.attendance_percentage !== null && course.attendance_percentage < minimumPercentage
+  );
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <Skeleton className="h-4 w-1/3" />
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-4 w-1/2" />
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>My Attendance</CardTitle>
-        <CardDescription>View your attendance records</CardDescription>
-      </CardHeader>
-      <CardContent>
-        <div className="text-center py-8 text-muted-foreground">
-          No attendance records found.
-        </div>
-      </CardContent>
-    </Card>
+    <div className="space-y-6">
+      {coursesBelowMinimum.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Attendance below {minimumPercentage}%</AlertTitle>
+          <AlertDescription>
+            Your attendance in {coursesBelowMinimum.map(course => course.course_code).join(', ')} is below
+            the required minimum. Please speak to your instructor.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Attendance by Course</CardTitle>
+          <CardDescription>
+            Classes attended out of classes held since you enrolled. Minimum required: {minimumPercentage}%
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {summary.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              You are not enrolled in any courses yet.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {summary.map((course) => (
+                <div key={course.course_id} className="space-y-2">
+                  <div className="flex justify-between items-baseline gap-4">
+                    <div>
+                      <span className="font-medium">{course.course_code}</span>
+                      <span className="text-sm text-muted-foreground ml-2">{course.course_name}</span>
+                    </div>
+                    <span
+                      className={`font-semibold ${
+                        course.attendance_percentage !== null && course.attendance_percentage < minimumPercentage
+                          ? 'text-destructive'
+                          : ''
+                      }`}
+                    >
+                      {course.attendance_percentage !== null ? `${course.attendance_percentage}%` : 'N/A'}
+                    </span>
+                  </div>
+                  <Progress value={course.attendance_percentage ?? 0} />
+                  <p className="text-xs text-muted-foreground">
+                    {course.scheduled_classes === 0
+                      ? 'No classes held yet'
+                      : `${course.attended_classes} of ${course.scheduled_classes} classes attended · ${course.late_classes} late · ${course.absent_classes} absent`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Attendance Calendar</CardTitle>
+          <CardDescription>The last {HEATMAP_WEEKS} weeks</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-1 overflow-x-auto pb-2">
+            {heatmapWeeks.map((week) => (
+              <div key={week[0].toISOString()} className="flex flex-col gap-1">
+                {week.map((day) => {
+                  const key = format(day, 'yyyy-MM-dd');
+                  const status = statusByDay.get(key);
+                  return (
+                    <div
+                      key={key}
+                      title={`${format(day, 'PPP')}${status ? ` - ${status}` : ''}`}
+                      className={`h-4 w-4 rounded-sm ${status ? HEATMAP_COLORS[status] || 'bg-primary' : 'bg-muted'} ${
+                        day > new Date() ? 'opacity-30' : ''
+                      }`}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+            {Object.entries(HEATMAP_COLORS).map(([status, color]) => (
+              <div key={status} className="flex items-center gap-1 capitalize">
+                <div className={`h-3 w-3 rounded-sm ${color}`} />
+                {status}
+              </div>
+            ))}
+            <div className="flex items-center gap-1">
+              <div className="h-3 w-3 rounded-sm bg-muted" />
+              No sessions
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>My Attendance</CardTitle>
+          <CardDescription>View your attendance records</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {records.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No attendance records found.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Course</TableHead>
+                  <TableHead>Session</TableHead>
+                  <TableHead>Check In</TableHead>
+                  <TableHead>Check Out</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {records.map((record) => (
+                  <TableRow key={record.id}>
+                    <TableCell>
+                      {record.qr_codes ? new Date(record.qr_codes.session_date).toLocaleDateString() : '-'}
+                    </TableCell>
+                    <TableCell>{record.qr_codes?.courses?.course_code || 'General'}</TableCell>
+                    <TableCell>{record.qr_codes?.session_name || 'Unknown Session'}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {record.check_in_time ? new Date(record.check_in_time).toLocaleTimeString() : '-'}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {record.check_out_time ? new Date(record.check_out_time).toLocaleTimeString() : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={getStatusColor(record.status)} className="capitalize">
+                        {record.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
   );
 };
 
-export default StudentAttendance;
\ No newline at end of file
+export default StudentAttendance;
@@ -2,9 +2,25 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
-import { Award, Download, Eye } from 'lucide-react';
+import { Award, Download, Eye, Link2, Linkedin } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import QRCode from 'qrcode';
 import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/hooks/useAuth';
+import { renderCertificatePdf, type CertificateLayout, type CertificateTemplate } from '@/lib/certificatePdf';
+import {
+  getCertificateVerificationUrl,
+  getLinkedInAddCertificationUrl,
+  resolveCertificateBarcodeData,
+} from '@/lib/certificates';
+import type { Database } from '@/integrations/supabase/types';
+
+type TemplateRow = Database['public']['Tables']['certificate_templates']['Row'];
+
+const toTemplate = (template: TemplateRow): CertificateTemplate => ({
+  ...template,
+  layout: template.layout as unknown as CertificateLayout,
+});
 
 interface Certificate {
   id: string;
@@ -16,10 +32,17 @@ interface Certificate {
     course_code: string;
   };
   barcode_data: string;
+  signature: string;
+  status: string;
+  template: TemplateRow | null;
 }
 
 const StudentCertificates = () => {
+  const { profile } = useAuth();
   const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [defaultTemplate, setDefaultTemplate] = useState<CertificateTemplate | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [qrCodes, setQrCodes] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -45,13 +68,29 @@ const StudentCertificates = () => {
         .from('certificates')
         .select(`
           *,
-          courses(course_name, course_code)
+          courses(course_name, course_code),
+          template:certificate_templates(*)
         `)
         .eq('student_id', studentData.id)
         .order('issue_date', { ascending: false });
 
       if (error) throw error;
       setCertificates(data || []);
+
+      const codes = await Promise.all((data || []).map(async (cert) =>
+        [cert.id, await QRCode.toDataURL(resolveCertificateBarcodeData(cert.barcode_data))] as const
+      ));
+      setQrCodes(Object.fromEntries(codes));
+
+      // Certificates issued before templates existed use the default design
+      const { data: templateData, error: templateError } = await supabase
+        .from('certificate_templates')
+        .select('*')
+        .eq('is_default', true)
+        .maybeSingle();
+
+      if (templateError) throw templateError;
+      setDefaultTemplate(templateData ? toTemplate(templateData) : null);
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -63,11 +102,62 @@ const StudentCertificates = () => {
     }
   };
 
-  const downloadCertificate = (cert: Certificate) => {
+  const viewCertificate = (cert: Certificate) => {
     // Open verification page in new tab
     window.open(`/verify-certificate?cert=${cert.certificate_number}`, '_blank');
   };
 
+  const downloadCertificate = async (cert: Certificate) => {
+    const template = cert.template ? toTemplate(cert.template) : defaultTemplate;
+    if (!template) {
+      toast({
+        title: 'Error',
+        description: 'No certificate template is available',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setDownloadingId(cert.id);
+    try {
+      const doc = await renderCertificatePdf(template, {
+        student_name: profile?.full_name || 'N/A',
+        course_name: cert.courses.course_name,
+        course_code: cert.courses.course_code,
+        grade: cert.grade,
+        issue_date: cert.issue_date,
+        certificate_number: cert.certificate_number,
+        verification_url: getCertificateVerificationUrl(cert.certificate_number),
+        signature: cert.signature,
+      });
+      doc.save(`certificate-${cert.certificate_number}.pdf`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const copyShareLink = async (cert: Certificate) => {
+    try {
+      await navigator.clipboard.writeText(getCertificateVerificationUrl(cert.certificate_number));
+      toast({
+        title: 'Link copied',
+        description: 'Anyone with this link can verify your certificate',
+      });
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Could not copy the link to the clipboard',
+        variant: 'destructive',
+      });
+    }
+  };
+
   if (loading) {
     return <div className="text-center py-8">Loading certificates...</div>;
   }
@@ -98,6 +188,9 @@ const StudentCertificates = () => {
                     <div className="flex items-center space-x-2 mb-2">
                       <h4 className="font-semibold text-lg">{cert.courses.course_name}</h4>
                       <Badge>{cert.courses.course_code}</Badge>
+                      {cert.status !== 'active' && (
+                        <Badge variant="destructive" className="capitalize">{cert.status}</Badge>
+                      )}
                     </div>
                     <p className="text-sm text-muted-foreground mb-1">
                       Certificate Number: <span className="font-mono">{cert.certificate_number}</span>
@@ -110,9 +203,9 @@ const StudentCertificates = () => {
                     </p>
                   </div>
                   <div className="flex flex-col space-y-2">
-                    {cert.barcode_data && (
+                    {qrCodes[cert.id] && (
                       <img 
-                        src={cert.barcode_data} 
+                        src={qrCodes[cert.id]} 
                         alt="Certificate QR Code" 
                         className="h-20 w-20"
                       />
@@ -120,11 +213,38 @@ const StudentCertificates = () => {
                     <Button
                       size="sm"
                       variant="outline"
-                      onClick={() => downloadCertificate(cert)}
+                      onClick={() => viewCertificate(cert)}
                     >
                       <Eye className="mr-2 h-4 w-4" />
                       View
                     </Button>
+                    {cert.status === 'active' && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => downloadCertificate(cert)}
+                          disabled={downloadingId === cert.id}
+                        >
+                          <Download className="mr-2 h-4 w-4" />
+                          {downloadingId === cert.id ? 'Preparing...' : 'Download'}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => copyShareLink(cert)}
+                        >
+                          <Link2 className="mr-2 h-4 w-4" />
+                          Copy Link
+                        </Button>
+                        <Button size="sm" variant="outline" asChild>
+                          <a href={getLinkedInAddCertificationUrl({ ...cert, ...cert.courses })} target="_blank" rel="noopener noreferrer">
+                            <Linkedin className="mr-2 h-4 w-4" />
+                            Add to LinkedIn
+                          </a>
+                        </Button>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { Skeleton } from '@/components/ui/skeleton';
 import { BookOpen, Clock, User } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
 
 interface Course {
   id: string;
@@ -12,25 +13,46 @@ interface Course {
   credits: number;
   description: string;
   semester: number;
+  enrollment_status: string;
 }
 
 const StudentCourses = () => {
   const [courses, setCourses] = useState<Course[]>([]);
   const [loading, setLoading] = useState(true);
+  const { profile } = useAuth();
 
   useEffect(() => {
-    fetchCourses();
-  }, []);
+    if (profile) {
+      fetchCourses();
+    }
+  }, [profile]);
 
   const fetchCourses = async () => {
     try {
+      const { data: student } = await supabase
+        .from('students')
+        .select('id')
+        .eq('user_id', profile?.id)
+        .maybeSingle();
+
+      if (!student) return;
+
       const { data, error } = await supabase
-        .from('courses')
-        .select('*')
-        .order('course_name');
+        .from('course_enrollments')
+        .select(`
+          status,
+          courses (*)
+        `)
+        .eq('student_id', student.id)
+        .in('status', ['enrolled', 'waitlisted']);
 
       if (error) throw error;
-      setCourses(data || []);
+      setCourses(
+        (data || [])
+          .filter((enrollment) => enrollment.courses)
+          .map((enrollment) => ({ ...enrollment.courses, enrollment_status: enrollment.status }))
+          .sort((a, b) => a.course_name.localeCompare(b.course_name))
+      );
     } catch (error) {
       console.error('Error fetching courses:', error);
     } finally {
@@ -66,7 +88,7 @@ const StudentCourses = () => {
         <Card>
           <CardContent className="text-center py-8">
             <BookOpen className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
-            <p className="text-muted-foreground">No courses available</p>
+            <p className="text-muted-foreground">You are not enrolled in any courses yet</p>
           </CardContent>
         </Card>
       ) : (
@@ -74,7 +96,12 @@ const StudentCourses = () => {
           {courses.map((course) => (
             <Card key={course.id} className="hover:shadow-md transition-shadow">
               <CardHeader>
-                <CardTitle className="text-lg">{course.course_name}</CardTitle>
+                <div className="flex justify-between items-start gap-2">
+                  <CardTitle className="text-lg">{course.course_name}</CardTitle>
+                  {course.enrollment_status === 'waitlisted' && (
+                    <Badge variant="secondary">Waitlisted</Badge>
+                  )}
+                </div>
                 <CardDescription className="flex items-center gap-2">
                   <Badge variant="outline">{course.course_code}</Badge>
                   <span className="flex items-center gap-1">
@@ -5,6 +5,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Trophy, Calendar, BookOpen } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import CourseGrades from '@/components/student/CourseGrades';
 
 interface ExamResult {
   id: string;
@@ -16,11 +17,29 @@ interface ExamResult {
     exam_name: string;
     total_marks: number;
     exam_date: string;
+    courses: { grading_scale_id: string | null } | null;
   };
 }
 
+interface GradingScale {
+  id: string;
+  is_default: boolean;
+  grading_scale_bands: { letter: string; min_percentage: number; is_pass: boolean }[];
+}
+
+// Passing grades are coloured by rank within their scale, best first
+const PASSING_GRADE_COLORS = [
+  'bg-green-100 text-green-800',
+  'bg-blue-100 text-blue-800',
+  'bg-yellow-100 text-yellow-800',
+  'bg-orange-100 text-orange-800',
+];
+const FAILING_GRADE_COLOR = 'bg-red-100 text-red-800';
+
 const StudentResults = () => {
   const [results, setResults] = useState<ExamResult[]>([]);
+  const [gradingScales, setGradingScales] = useState<GradingScale[]>([]);
+  const [studentId, setStudentId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const { profile } = useAuth();
 
@@ -43,22 +62,48 @@ const StudentResults = () => {
         setLoading(false);
         return;
       }
+      setStudentId(student.id);
+
+      // Only show results for courses the student is currently enrolled in
+      const { data: enrollments } = await supabase
+        .from('course_enrollments')
+        .select('course_id')
+        .eq('student_id', student.id)
+        .eq('status', 'enrolled');
+
+      const courseIds = (enrollments || []).map((e) => e.course_id);
+      if (courseIds.length === 0) {
+        setResults([]);
+        return;
+      }
 
       const { data, error } = await supabase
         .from('exam_results')
         .select(`
           *,
-          exams (
+          exams!inner (
             exam_name,
             total_marks,
-            exam_date
+            exam_date,
+            course_id,
+            courses (
+              grading_scale_id
+            )
           )
         `)
         .eq('student_id', student.id)
+        .in('exams.course_id', courseIds)
         .order('submitted_at', { ascending: false });
 
       if (error) throw error;
       setResults(data || []);
+
+      const { data: scales, error: scalesError } = await supabase
+        .from('grading_scales')
+        .select('id, is_default, grading_scale_bands(letter, min_percentage, is_pass)');
+
+      if (scalesError) throw scalesError;
+      setGradingScales(scales || []);
     } catch (error) {
       console.error('Error fetching results:', error);
     } finally {
@@ -66,14 +111,17 @@ const StudentResults = () => {
     }
   };
 
-  const getGradeColor = (grade: string) => {
-    switch (grade?.toUpperCase()) {
-      case 'A': return 'bg-green-100 text-green-800';
-      case 'B': return 'bg-blue-100 text-blue-800';
-      case 'C': return 'bg-yellow-100 text-yellow-800';
-      case 'D': return 'bg-orange-100 text-orange-800';
-      default: return 'bg-red-100 text-red-800';
-    }
+  const getGradeColor = (result: ExamResult) => {
+    const scaleId = result.exams?.courses?.grading_scale_id;
+    const scale = gradingScales.find(s => scaleId ? s.id === scaleId : s.is_default);
+    const passingLetters = (scale?.grading_scale_bands || [])
+      .filter(band => band.is_pass)
+      .sort((a, b) => b.min_percentage - a.min_percentage)
+      .map(band => band.letter);
+
+    const rank = passingLetters.indexOf(result.grade);
+    if (rank === -1) return FAILING_GRADE_COLOR;
+    return PASSING_GRADE_COLORS[Math.min(rank, PASSING_GRADE_COLORS.length - 1)];
   };
 
   if (loading) {
@@ -94,6 +142,8 @@ const StudentResults = () => {
 
   return (
     <div className="space-y-4">
+      {studentId && <CourseGrades studentId={studentId} />}
+
       <div className="flex items-center gap-2 mb-6">
         <Trophy className="w-5 h-5 text-primary" />
         <h2 className="text-xl font-semibold">Exam Results</h2>
@@ -120,7 +170,7 @@ const StudentResults = () => {
                       {new Date(result.exams?.exam_date).toLocaleDateString()}
                     </CardDescription>
                   </div>
-                  <Badge className={getGradeColor(result.grade)}>
+                  <Badge className={getGradeColor(result)}>
                     {result.grade || 'N/A'}
                   </Badge>
                 </div>
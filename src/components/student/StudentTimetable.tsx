@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import TimetableCalendar from '@/components/timetable/TimetableCalendar';
+
+interface TimetableSchedule {
+  id: string;
+  course_id: string;
+  class_date: string;
+  start_time: string;
+  end_time: string;
+  room_number: string | null;
+  topic: string | null;
+  status: string;
+  courses: {
+    course_code: string;
+    course_name: string;
+  } | null;
+}
+
+const StudentTimetable = () => {
+  const { profile } = useAuth();
+  const [schedules, setSchedules] = useState<TimetableSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (profile) {
+      fetchTimetable();
+    }
+  }, [profile]);
+
+  const fetchTimetable = async () => {
+    try {
+      const { data: student } = await supabase
+        .from('students')
+        .select('id')
+        .eq('user_id', profile?.id)
+        .maybeSingle();
+
+      if (!student) return;
+
+      const { data: enrollments, error: enrollmentsError } = await supabase
+        .from('course_enrollments')
+        .select('course_id')
+        .eq('student_id', student.id)
+        .eq('status', 'enrolled');
+
+      if (enrollmentsError) throw enrollmentsError;
+
+      const courseIds = (enrollments || []).map((enrollment) => enrollment.course_id);
+      if (courseIds.length === 0) return;
+
+      const { data, error } = await supabase
+        .from('class_schedules')
+        .select(`
+          id,
+          course_id,
+          class_date,
+          start_time,
+          end_time,
+          room_number,
+          topic,
+          status,
+          courses (
+            course_code,
+            course_name
+          )
+        `)
+        .in('course_id', courseIds)
+        .order('class_date', { ascending: true })
+        .order('start_time', { ascending: true });
+
+      if (error) throw error;
+      setSchedules(data || []);
+    } catch (error) {
+      console.error('Error fetching timetable:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 space-y-2">
+          <Skeleton className="h-4 w-1/3" />
+          <Skeleton className="h-64 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>My Timetable</CardTitle>
+        <CardDescription>Classes for the courses you are enrolled in</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {schedules.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No classes have been scheduled for your courses yet.
+          </div>
+        ) : (
+          <TimetableCalendar classes={schedules} />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StudentTimetable;
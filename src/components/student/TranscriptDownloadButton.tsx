@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { FileText } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+
+interface TranscriptCourse {
+  course_code: string;
+  course_name: string;
+  credits: number;
+  semester: number;
+  final_percentage: number;
+  letter: string | null;
+  grade_points: number | null;
+  graded_exams: number;
+  total_exams: number;
+}
+
+interface TranscriptSemester {
+  semester: number;
+  credits: number;
+  gpa: number | null;
+}
+
+interface TranscriptDownloadButtonProps {
+  studentId: string;
+}
+
+const PAGE_MARGIN = 20;
+const PAGE_BOTTOM = 270;
+const COLUMNS = [
+  { label: 'Code', x: 20 },
+  { label: 'Course', x: 45 },
+  { label: 'Credits', x: 125 },
+  { label: 'Score', x: 142 },
+  { label: 'Grade', x: 160 },
+  { label: 'Points', x: 176 },
+];
+
+const formatGpa = (gpa: number | null | undefined) => gpa == null ? '-' : Number(gpa).toFixed(2);
+
+const TranscriptDownloadButton = ({ studentId }: TranscriptDownloadButtonProps) => {
+  const [generating, setGenerating] = useState(false);
+
+  const handleDownload = async () => {
+    setGenerating(true);
+    try {
+      // Every download is recorded so its QR code can be verified later
+      const { data: transcript, error } = await supabase.rpc('issue_transcript', { _student_id: studentId });
+      if (error) throw error;
+
+      const courses = transcript.courses as unknown as TranscriptCourse[];
+      const semesters = transcript.semesters as unknown as TranscriptSemester[];
+      const verificationUrl = `${window.location.origin}/verify-transcript?code=${transcript.verification_code}`;
+      const qrCodeDataURL = await QRCode.toDataURL(verificationUrl);
+
+      const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+      let y = PAGE_MARGIN;
+
+      const ensureSpace = (height: number) => {
+        if (y + height > PAGE_BOTTOM) {
+          doc.addPage();
+          y = PAGE_MARGIN;
+        }
+      };
+
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(20);
+      doc.text('Academic Transcript', 105, y, { align: 'center' });
+      y += 12;
+
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'normal');
+      doc.text(`Student: ${transcript.student_name}`, PAGE_MARGIN, y);
+      doc.text(`Issued: ${new Date(transcript.generated_at).toLocaleDateString()}`, 190, y, { align: 'right' });
+      y += 6;
+      doc.text(`Student ID: ${transcript.student_number}`, PAGE_MARGIN, y);
+      y += 10;
+
+      for (const semester of Array.from(new Set(courses.map(course => course.semester)))) {
+        const semesterCourses = courses.filter(course => course.semester === semester);
+        const semesterGpa = semesters.find(entry => entry.semester === semester);
+
+        ensureSpace(20);
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(12);
+        doc.text(`Semester ${semester}`, PAGE_MARGIN, y);
+        y += 6;
+
+        doc.setFontSize(9);
+        COLUMNS.forEach(column => doc.text(column.label, column.x, y));
+        doc.line(PAGE_MARGIN, y + 1.5, 190, y + 1.5);
+        y += 6;
+
+        doc.setFont('helvetica', 'normal');
+        for (const course of semesterCourses) {
+          ensureSpace(6);
+          const inProgress = course.graded_exams < course.total_exams;
+          doc.text(course.course_code, COLUMNS[0].x, y);
+          doc.text(doc.splitTextToSize(course.course_name, 75)[0], COLUMNS[1].x, y);
+          doc.text(String(course.credits), COLUMNS[2].x, y);
+          doc.text(`${Number(course.final_percentage).toFixed(1)}%`, COLUMNS[3].x, y);
+          doc.text(inProgress ? 'IP' : course.letter || '-', COLUMNS[4].x, y);
+          doc.text(inProgress ? '-' : formatGpa(course.grade_points), COLUMNS[5].x, y);
+          y += 6;
+        }
+
+        doc.setFont('helvetica', 'italic');
+        doc.text(
+          `Semester GPA: ${formatGpa(semesterGpa?.gpa)}   Credits: ${semesterGpa?.credits || 0}`,
+          190,
+          y,
+          { align: 'right' }
+        );
+        y += 10;
+      }
+
+      if (courses.length === 0) {
+        doc.setFont('helvetica', 'italic');
+        doc.text('No graded courses.', PAGE_MARGIN, y);
+        y += 10;
+      }
+
+      ensureSpace(55);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(12);
+      doc.text(`Cumulative GPA: ${formatGpa(transcript.cumulative_gpa)}`, PAGE_MARGIN, y);
+      doc.text(`Total Credits: ${transcript.total_credits}`, PAGE_MARGIN, y + 7);
+
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.text('IP = in progress, not counted towards GPA', PAGE_MARGIN, y + 14);
+
+      doc.addImage(qrCodeDataURL, 'PNG', 155, y - 5, 35, 35);
+      doc.text('Scan to verify authenticity', 172.5, y + 33, { align: 'center' });
+      doc.text(`Verification code: ${transcript.verification_code}`, PAGE_MARGIN, y + 33);
+
+      doc.save(`transcript-${transcript.student_number}.pdf`);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={handleDownload} disabled={generating}>
+      <FileText className="w-4 h-4 mr-2" />
+      {generating ? 'Generating...' : 'Download Transcript'}
+    </Button>
+  );
+};
+
+export default TranscriptDownloadButton;
@@ -0,0 +1,315 @@
+import { useRef, useState } from 'react';
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TimetableClass {
+  id: string;
+  course_id: string;
+  class_date: string;
+  start_time: string;
+  end_time: string;
+  room_number: string | null;
+  topic: string | null;
+  status: string;
+  courses: {
+    course_code: string;
+    course_name: string;
+  } | null;
+}
+
+interface TimetableCalendarProps<T extends TimetableClass> {
+  classes: T[];
+  // Omitted for read-only timetables
+  onReschedule?: (schedule: T, slot: { class_date: string; start_time: string; end_time: string }) => void;
+  onSelect?: (schedule: T) => void;
+}
+
+const HOUR_HEIGHT = 48;
+const SNAP_MINUTES = 15;
+
+const COURSE_COLORS = [
+  'bg-blue-100 border-blue-500 text-blue-900',
+  'bg-green-100 border-green-500 text-green-900',
+  'bg-purple-100 border-purple-500 text-purple-900',
+  'bg-amber-100 border-amber-500 text-amber-900',
+  'bg-pink-100 border-pink-500 text-pink-900',
+  'bg-teal-100 border-teal-500 text-teal-900',
+  'bg-orange-100 border-orange-500 text-orange-900',
+  'bg-indigo-100 border-indigo-500 text-indigo-900',
+];
+
+// The same course always gets the same colour
+const getCourseColor = (courseId: string) => {
+  let hash = 0;
+  for (const char of courseId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return COURSE_COLORS[Math.abs(hash) % COURSE_COLORS.length];
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (total: number) =>
+  `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+
+const isCalledOff = (status: string) => ['cancelled', 'postponed'].includes(status);
+
+const hasEnded = (schedule: TimetableClass) => new Date(`${schedule.class_date}T${schedule.end_time}`) < new Date();
+
+// Side-by-side lanes for classes that overlap on the same day
+const assignLanes = <T extends TimetableClass,>(dayClasses: T[]) => {
+  const sorted = [...dayClasses].sort((a, b) => toMinutes(a.start_time) - toMinutes(b.start_time));
+  const laneEnds: number[] = [];
+  const lanes = new Map<string, number>();
+  for (const schedule of sorted) {
+    const start = toMinutes(schedule.start_time);
+    let lane = laneEnds.findIndex((end) => end <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = toMinutes(schedule.end_time);
+    lanes.set(schedule.id, lane);
+  }
+  return { lanes, laneCount: Math.max(laneEnds.length, 1) };
+};
+
+const TimetableCalendar = <T extends TimetableClass,>({ classes, onReschedule, onSelect }: TimetableCalendarProps<T>) => {
+  const [view, setView] = useState<'week' | 'month'>('week');
+  const [anchor, setAnchor] = useState(new Date());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // How far below the top of the class block it was grabbed
+  const grabOffsetRef = useRef(0);
+
+  const days = view === 'week'
+    ? eachDayOfInterval({ start: startOfWeek(anchor, { weekStartsOn: 1 }), end: endOfWeek(anchor, { weekStartsOn: 1 }) })
+    : eachDayOfInterval({
+        start: startOfWeek(startOfMonth(anchor), { weekStartsOn: 1 }),
+        end: endOfWeek(endOfMonth(anchor), { weekStartsOn: 1 }),
+      });
+
+  const classesOn = (day: Date) =>
+    classes.filter((schedule) => isSameDay(parseISO(schedule.class_date), day));
+
+  // Show working hours, widened to fit any class outside them
+  const visibleClasses = classes.filter((schedule) =>
+    days.some((day) => isSameDay(parseISO(schedule.class_date), day))
+  );
+  const firstHour = Math.min(8, ...visibleClasses.map((s) => Math.floor(toMinutes(s.start_time) / 60)));
+  const lastHour = Math.max(18, ...visibleClasses.map((s) => Math.ceil(toMinutes(s.end_time) / 60)));
+  const hours = Array.from({ length: lastHour - firstHour }, (_, i) => firstHour + i);
+
+  const navigate = (direction: number) => {
+    setAnchor((current) => view === 'week' ? addWeeks(current, direction) : addMonths(current, direction));
+  };
+
+  const findDragged = (e: React.DragEvent) => classes.find((s) => s.id === e.dataTransfer.getData('text/plain'));
+
+  const handleWeekDrop = (e: React.DragEvent<HTMLDivElement>, day: Date) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const schedule = findDragged(e);
+    if (!schedule || !onReschedule) return;
+
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top - grabOffsetRef.current;
+    const duration = toMinutes(schedule.end_time) - toMinutes(schedule.start_time);
+    const snapped = Math.round((offset / HOUR_HEIGHT) * 60 / SNAP_MINUTES) * SNAP_MINUTES;
+    const start = Math.min(Math.max(firstHour * 60 + snapped, 0), 24 * 60 - duration);
+
+    onReschedule(schedule, {
+      class_date: format(day, 'yyyy-MM-dd'),
+      start_time: fromMinutes(start),
+      end_time: fromMinutes(start + duration),
+    });
+  };
+
+  const handleMonthDrop = (e: React.DragEvent<HTMLDivElement>, day: Date) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const schedule = findDragged(e);
+    if (!schedule || !onReschedule || isSameDay(parseISO(schedule.class_date), day)) return;
+
+    onReschedule(schedule, {
+      class_date: format(day, 'yyyy-MM-dd'),
+      start_time: schedule.start_time.slice(0, 5),
+      end_time: schedule.end_time.slice(0, 5),
+    });
+  };
+
+  // Called-off and finished classes stay where they are
+  const canDrag = (schedule: T) => !!onReschedule && !isCalledOff(schedule.status) && !hasEnded(schedule);
+
+  const dragProps = (schedule: T) => canDrag(schedule) ? {
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      grabOffsetRef.current = e.clientY - e.currentTarget.getBoundingClientRect().top;
+      e.dataTransfer.setData('text/plain', schedule.id);
+      e.dataTransfer.effectAllowed = 'move';
+    },
+  } : {};
+
+  const dropProps = (day: Date, onDrop: (e: React.DragEvent<HTMLDivElement>, day: Date) => void) => onReschedule ? {
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(day.toISOString());
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent<HTMLDivElement>) => onDrop(e, day),
+  } : {};
+
+  const title = view === 'week'
+    ? `${format(days[0], 'd MMM')} - ${format(days[days.length - 1], 'd MMM yyyy')}`
+    : format(anchor, 'MMMM yyyy');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => navigate(-1)} aria-label="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setAnchor(new Date())}>Today</Button>
+          <Button variant="outline" size="icon" onClick={() => navigate(1)} aria-label="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="ml-2 text-lg font-semibold">{title}</h3>
+        </div>
+        <Tabs value={view} onValueChange={(value) => setView(value as 'week' | 'month')}>
+          <TabsList>
+            <TabsTrigger value="week">Week</TabsTrigger>
+            <TabsTrigger value="month">Month</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {view === 'week' ? (
+        <div className="overflow-x-auto border rounded-md">
+          <div className="grid min-w-[800px]" style={{ gridTemplateColumns: '56px repeat(7, minmax(0, 1fr))' }}>
+            <div className="border-b" />
+            {days.map((day) => (
+              <div
+                key={day.toISOString()}
+                className={cn('border-b border-l p-2 text-center text-sm', isSameDay(day, new Date()) && 'bg-primary/10 font-semibold')}
+              >
+                {format(day, 'EEE d')}
+              </div>
+            ))}
+
+            <div>
+              {hours.map((hour) => (
+                <div key={hour} className="pr-2 text-right text-xs text-muted-foreground" style={{ height: HOUR_HEIGHT }}>
+                  {fromMinutes(hour * 60)}
+                </div>
+              ))}
+            </div>
+            {days.map((day) => {
+              const dayClasses = classesOn(day);
+              const { lanes, laneCount } = assignLanes(dayClasses);
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={cn('relative border-l', dropTarget === day.toISOString() && 'bg-muted')}
+                  style={{ height: hours.length * HOUR_HEIGHT }}
+                  {...dropProps(day, handleWeekDrop)}
+                >
+                  {hours.map((hour) => (
+                    <div key={hour} className="border-b border-dashed" style={{ height: HOUR_HEIGHT }} />
+                  ))}
+                  {dayClasses.map((schedule) => {
+                    const start = toMinutes(schedule.start_time);
+                    const end = toMinutes(schedule.end_time);
+                    const lane = lanes.get(schedule.id) ?? 0;
+                    return (
+                      <div
+                        key={schedule.id}
+                        className={cn(
+                          'absolute overflow-hidden rounded border-l-4 px-1 py-0.5 text-xs',
+                          getCourseColor(schedule.course_id),
+                          isCalledOff(schedule.status) && 'opacity-50 line-through',
+                          canDrag(schedule) && 'cursor-move',
+                          onSelect && 'cursor-pointer'
+                        )}
+                        style={{
+                          top: ((start - firstHour * 60) / 60) * HOUR_HEIGHT,
+                          height: Math.max(((end - start) / 60) * HOUR_HEIGHT, 18),
+                          left: `${(lane / laneCount) * 100}%`,
+                          width: `${100 / laneCount}%`,
+                        }}
+                        title={`${schedule.courses?.course_name || ''} ${schedule.topic || ''}`.trim()}
+                        onClick={() => onSelect?.(schedule)}
+                        {...dragProps(schedule)}
+                      >
+                        <div className="font-semibold">{schedule.courses?.course_code}</div>
+                        <div>{schedule.start_time.slice(0, 5)} - {schedule.end_time.slice(0, 5)}</div>
+                        {schedule.room_number && <div>{schedule.room_number}</div>}
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 border rounded-md">
+          {days.slice(0, 7).map((day) => (
+            <div key={day.toISOString()} className="border-b p-2 text-center text-sm font-medium">
+              {format(day, 'EEE')}
+            </div>
+          ))}
+          {days.map((day) => (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                'min-h-[100px] border-b border-l p-1',
+                !isSameMonth(day, anchor) && 'bg-muted/40 text-muted-foreground',
+                dropTarget === day.toISOString() && 'bg-muted'
+              )}
+              {...dropProps(day, handleMonthDrop)}
+            >
+              <div className={cn('mb-1 text-right text-xs', isSameDay(day, new Date()) && 'font-bold text-primary')}>
+                {format(day, 'd')}
+              </div>
+              <div className="space-y-1">
+                {classesOn(day)
+                  .sort((a, b) => toMinutes(a.start_time) - toMinutes(b.start_time))
+                  .map((schedule) => (
+                    <div
+                      key={schedule.id}
+                      className={cn(
+                        'truncate rounded border-l-4 px-1 text-xs',
+                        getCourseColor(schedule.course_id),
+                        isCalledOff(schedule.status) && 'opacity-50 line-through',
+                        canDrag(schedule) && 'cursor-move',
+                        onSelect && 'cursor-pointer'
+                      )}
+                      title={`${schedule.courses?.course_name || ''} ${schedule.topic || ''}`.trim()}
+                      onClick={() => onSelect?.(schedule)}
+                      {...dragProps(schedule)}
+                    >
+                      {schedule.start_time.slice(0, 5)} {schedule.courses?.course_code}
+                    </div>
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimetableCalendar;
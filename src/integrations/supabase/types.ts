@@ -14,11 +14,108 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          created_at: string
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          created_at?: string
+          key: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          created_at?: string
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      attendance_audit_log: {
+        Row: {
+          action: string
+          attendance_record_id: string
+          changed_at: string
+          changed_by: string | null
+          changes: Json | null
+          id: string
+          new_status: string | null
+          old_status: string | null
+          qr_code_id: string | null
+          reason: string
+          session_date: string | null
+          session_name: string | null
+          student_id: string
+        }
+        Insert: {
+          action: string
+          attendance_record_id: string
+          changed_at?: string
+          changed_by?: string | null
+          changes?: Json | null
+          id?: string
+          new_status?: string | null
+          old_status?: string | null
+          qr_code_id?: string | null
+          reason: string
+          session_date?: string | null
+          session_name?: string | null
+          student_id: string
+        }
+        Update: {
+          action?: string
+          attendance_record_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          changes?: Json | null
+          id?: string
+          new_status?: string | null
+          old_status?: string | null
+          qr_code_id?: string | null
+          reason?: string
+          session_date?: string | null
+          session_name?: string | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_audit_log_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_audit_log_qr_code_id_fkey"
+            columns: ["qr_code_id"]
+            isOneToOne: false
+            referencedRelation: "qr_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_audit_log_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attendance_records: {
         Row: {
-          check_in_time: string
+          check_in_accuracy_meters: number | null
+          check_in_ip: unknown
+          check_in_latitude: number | null
+          check_in_longitude: number | null
+          check_in_time: string | null
           check_out_time: string | null
           created_at: string
+          flag_reason: string | null
+          flagged: boolean
           id: string
           notes: string | null
           qr_code_id: string
@@ -27,9 +124,15 @@ export type Database = {
           updated_at: string
         }
         Insert: {
-          check_in_time?: string
+          check_in_accuracy_meters?: number | null
+          check_in_ip?: unknown
+          check_in_latitude?: number | null
+          check_in_longitude?: number | null
+          check_in_time?: string | null
           check_out_time?: string | null
           created_at?: string
+          flag_reason?: string | null
+          flagged?: boolean
           id?: string
           notes?: string | null
           qr_code_id: string
@@ -38,9 +141,15 @@ export type Database = {
           updated_at?: string
         }
         Update: {
-          check_in_time?: string
+          check_in_accuracy_meters?: number | null
+          check_in_ip?: unknown
+          check_in_latitude?: number | null
+          check_in_longitude?: number | null
+          check_in_time?: string | null
           check_out_time?: string | null
           created_at?: string
+          flag_reason?: string | null
+          flagged?: boolean
           id?: string
           notes?: string | null
           qr_code_id?: string
@@ -65,6 +174,105 @@ export type Database = {
           },
         ]
       }
+      certificate_signing_key: {
+        Row: {
+          created_at: string
+          id: boolean
+          secret: string
+        }
+        Insert: {
+          created_at?: string
+          id?: boolean
+          secret?: string
+        }
+        Update: {
+          created_at?: string
+          id?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
+      certificate_templates: {
+        Row: {
+          accent_color: string
+          background_url: string | null
+          body_text: string
+          created_at: string
+          id: string
+          is_default: boolean
+          layout: Json
+          logo_url: string | null
+          name: string
+          orientation: string
+          signatory_name: string | null
+          signatory_title: string | null
+          signature_url: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          accent_color?: string
+          background_url?: string | null
+          body_text?: string
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          layout?: Json
+          logo_url?: string | null
+          name: string
+          orientation?: string
+          signatory_name?: string | null
+          signatory_title?: string | null
+          signature_url?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Update: {
+          accent_color?: string
+          background_url?: string | null
+          body_text?: string
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          layout?: Json
+          logo_url?: string | null
+          name?: string
+          orientation?: string
+          signatory_name?: string | null
+          signatory_title?: string | null
+          signature_url?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      certificate_verifications: {
+        Row: {
+          certificate_number: string
+          created_at: string
+          id: string
+          ip_address: string | null
+          result: string
+          user_agent: string | null
+        }
+        Insert: {
+          certificate_number: string
+          created_at?: string
+          id?: string
+          ip_address?: string | null
+          result: string
+          user_agent?: string | null
+        }
+        Update: {
+          certificate_number?: string
+          created_at?: string
+          id?: string
+          ip_address?: string | null
+          result?: string
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
       certificates: {
         Row: {
           barcode_data: string
@@ -76,12 +284,19 @@ export type Database = {
           issue_date: string
           issued_by: string
           remarks: string | null
+          revocation_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          signature: string
+          status: string
           student_id: string
+          supersedes_id: string | null
+          template_id: string | null
           updated_at: string
         }
         Insert: {
-          barcode_data: string
-          certificate_number: string
+          barcode_data?: string
+          certificate_number?: string
           course_id: string
           created_at?: string
           grade?: string | null
@@ -89,7 +304,14 @@ export type Database = {
           issue_date?: string
           issued_by: string
           remarks?: string | null
+          revocation_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          signature?: string
+          status?: string
           student_id: string
+          supersedes_id?: string | null
+          template_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -102,7 +324,14 @@ export type Database = {
           issue_date?: string
           issued_by?: string
           remarks?: string | null
+          revocation_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          signature?: string
+          status?: string
           student_id?: string
+          supersedes_id?: string | null
+          template_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -127,16 +356,32 @@ export type Database = {
             referencedRelation: "students"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "certificates_supersedes_id_fkey"
+            columns: ["supersedes_id"]
+            isOneToOne: true
+            referencedRelation: "certificates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certificates_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "certificate_templates"
+            referencedColumns: ["id"]
+          },
         ]
       }
       class_schedules: {
         Row: {
+          absences_recorded_at: string | null
           class_date: string
           course_id: string
           created_at: string
           end_time: string
           id: string
           instructor_id: string
+          late_grace_minutes: number
           notes: string | null
           room_number: string | null
           start_time: string
@@ -145,12 +390,14 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          absences_recorded_at?: string | null
           class_date: string
           course_id: string
           created_at?: string
           end_time: string
           id?: string
           instructor_id: string
+          late_grace_minutes?: number
           notes?: string | null
           room_number?: string | null
           start_time: string
@@ -159,12 +406,14 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          absences_recorded_at?: string | null
           class_date?: string
           course_id?: string
           created_at?: string
           end_time?: string
           id?: string
           instructor_id?: string
+          late_grace_minutes?: number
           notes?: string | null
           room_number?: string | null
           start_time?: string
@@ -189,6 +438,99 @@ export type Database = {
           },
         ]
       }
+      course_assessment_weights: {
+        Row: {
+          course_id: string
+          created_at: string
+          exam_type: string
+          id: string
+          updated_at: string
+          weight: number
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          exam_type: string
+          id?: string
+          updated_at?: string
+          weight: number
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          exam_type?: string
+          id?: string
+          updated_at?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_assessment_weights_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_enrollments: {
+        Row: {
+          course_id: string
+          created_at: string
+          dropped_at: string | null
+          enrolled_at: string
+          enrolled_by: string | null
+          id: string
+          status: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          dropped_at?: string | null
+          enrolled_at?: string
+          enrolled_by?: string | null
+          id?: string
+          status?: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          dropped_at?: string | null
+          enrolled_at?: string
+          enrolled_by?: string | null
+          id?: string
+          status?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_enrollments_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_enrollments_enrolled_by_fkey"
+            columns: ["enrolled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_enrollments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       courses: {
         Row: {
           course_code: string
@@ -196,6 +538,7 @@ export type Database = {
           created_at: string
           credits: number
           description: string | null
+          grading_scale_id: string | null
           id: string
           instructor_id: string | null
           semester: number
@@ -207,6 +550,7 @@ export type Database = {
           created_at?: string
           credits?: number
           description?: string | null
+          grading_scale_id?: string | null
           id?: string
           instructor_id?: string | null
           semester: number
@@ -218,12 +562,20 @@ export type Database = {
           created_at?: string
           credits?: number
           description?: string | null
+          grading_scale_id?: string | null
           id?: string
           instructor_id?: string | null
           semester?: number
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "courses_grading_scale_id_fkey"
+            columns: ["grading_scale_id"]
+            isOneToOne: false
+            referencedRelation: "grading_scales"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "courses_instructor_id_fkey"
             columns: ["instructor_id"]
@@ -295,19 +647,29 @@ export type Database = {
           exam_type: string
           id: string
           instructions: string | null
+          results_published_at: string | null
+          results_published_by: string | null
+          results_reviewed_at: string | null
+          results_reviewed_by: string | null
+          results_status: string
           total_marks: number
           updated_at: string
         }
         Insert: {
           course_id: string
           created_at?: string
-          created_by: string
+          created_by?: string
           duration_minutes?: number
           exam_date: string
           exam_name: string
           exam_type: string
           id?: string
           instructions?: string | null
+          results_published_at?: string | null
+          results_published_by?: string | null
+          results_reviewed_at?: string | null
+          results_reviewed_by?: string | null
+          results_status?: string
           total_marks?: number
           updated_at?: string
         }
@@ -321,6 +683,11 @@ export type Database = {
           exam_type?: string
           id?: string
           instructions?: string | null
+          results_published_at?: string | null
+          results_published_by?: string | null
+          results_reviewed_at?: string | null
+          results_reviewed_by?: string | null
+          results_status?: string
           total_marks?: number
           updated_at?: string
         }
@@ -341,6 +708,71 @@ export type Database = {
           },
         ]
       }
+      grading_scale_bands: {
+        Row: {
+          created_at: string
+          grade_points: number
+          grading_scale_id: string
+          id: string
+          is_pass: boolean
+          letter: string
+          min_percentage: number
+        }
+        Insert: {
+          created_at?: string
+          grade_points?: number
+          grading_scale_id: string
+          id?: string
+          is_pass?: boolean
+          letter: string
+          min_percentage: number
+        }
+        Update: {
+          created_at?: string
+          grade_points?: number
+          grading_scale_id?: string
+          id?: string
+          is_pass?: boolean
+          letter?: string
+          min_percentage?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grading_scale_bands_grading_scale_id_fkey"
+            columns: ["grading_scale_id"]
+            isOneToOne: false
+            referencedRelation: "grading_scales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grading_scales: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_default: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
           created_at: string
@@ -420,39 +852,70 @@ export type Database = {
       }
       qr_codes: {
         Row: {
+          allowed_ip_range: unknown
+          class_schedule_id: string | null
           code: string
           course_id: string | null
           created_at: string
           created_by: string
           expires_at: string | null
+          fence_enforcement: string
           id: string
+          location_latitude: number | null
+          location_longitude: number | null
+          location_radius_meters: number | null
           qr_type: string
+          rotation_interval_seconds: number | null
+          rotation_secret: string
           session_date: string
           session_name: string
         }
         Insert: {
+          allowed_ip_range?: unknown
+          class_schedule_id?: string | null
           code: string
           course_id?: string | null
           created_at?: string
           created_by: string
           expires_at?: string | null
+          fence_enforcement?: string
           id?: string
+          location_latitude?: number | null
+          location_longitude?: number | null
+          location_radius_meters?: number | null
           qr_type?: string
+          rotation_interval_seconds?: number | null
+          rotation_secret?: string
           session_date?: string
           session_name: string
         }
         Update: {
+          allowed_ip_range?: unknown
+          class_schedule_id?: string | null
           code?: string
           course_id?: string | null
           created_at?: string
           created_by?: string
           expires_at?: string | null
+          fence_enforcement?: string
           id?: string
+          location_latitude?: number | null
+          location_longitude?: number | null
+          location_radius_meters?: number | null
           qr_type?: string
+          rotation_interval_seconds?: number | null
+          rotation_secret?: string
           session_date?: string
           session_name?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "qr_codes_class_schedule_id_fkey"
+            columns: ["class_schedule_id"]
+            isOneToOne: false
+            referencedRelation: "class_schedules"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "qr_codes_course_id_fkey"
             columns: ["course_id"]
@@ -570,6 +1033,56 @@ export type Database = {
           },
         ]
       }
+      transcripts: {
+        Row: {
+          courses: Json
+          cumulative_gpa: number | null
+          generated_at: string
+          generated_by: string | null
+          id: string
+          semesters: Json
+          student_id: string
+          student_name: string
+          student_number: string
+          total_credits: number
+          verification_code: string
+        }
+        Insert: {
+          courses?: Json
+          cumulative_gpa?: number | null
+          generated_at?: string
+          generated_by?: string | null
+          id?: string
+          semesters?: Json
+          student_id: string
+          student_name: string
+          student_number: string
+          total_credits?: number
+          verification_code?: string
+        }
+        Update: {
+          courses?: Json
+          cumulative_gpa?: number | null
+          generated_at?: string
+          generated_by?: string | null
+          id?: string
+          semesters?: Json
+          student_id?: string
+          student_name?: string
+          student_number?: string
+          total_credits?: number
+          verification_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcripts_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -599,9 +1112,109 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      app_timezone: { Args: never; Returns: string }
+      certificate_signature: {
+        Args: { _certificate: Database["public"]["Tables"]["certificates"]["Row"] }
+        Returns: string
+      }
+      course_grade_band: {
+        Args: { _course_id: string; _percentage: number }
+        Returns: {
+          created_at: string
+          grade_points: number
+          grading_scale_id: string
+          id: string
+          is_pass: boolean
+          letter: string
+          min_percentage: number
+        }
+      }
+      distance_meters: {
+        Args: { _lat1: number; _lat2: number; _lng1: number; _lng2: number }
+        Returns: number
+      }
+      find_class_schedule_conflicts: {
+        Args: {
+          _class_date: string
+          _end_time: string
+          _exclude_id?: string
+          _instructor_id?: string
+          _room_number?: string
+          _start_time: string
+        }
+        Returns: {
+          class_date: string
+          conflict: string
+          course_code: string
+          course_name: string
+          end_time: string
+          id: string
+          instructor_name: string
+          room_number: string
+          start_time: string
+          topic: string
+        }[]
+      }
+      generate_certificate_number: { Args: never; Returns: string }
       generate_employee_id: { Args: never; Returns: string }
       generate_student_id: { Args: never; Returns: string }
+      get_course_completion: {
+        Args: { _course_id: string; _min_attendance?: number }
+        Returns: {
+          attendance_percentage: number
+          eligible: boolean
+          final_percentage: number
+          graded_exams: number
+          has_certificate: boolean
+          is_pass: boolean
+          letter: string
+          student_id: string
+          student_name: string
+          student_number: string
+          total_exams: number
+        }[]
+      }
       get_current_user_role: { Args: never; Returns: string }
+      get_my_attendance_summary: {
+        Args: never
+        Returns: {
+          absent_classes: number
+          attendance_percentage: number
+          attended_classes: number
+          course_code: string
+          course_id: string
+          course_name: string
+          late_classes: number
+          scheduled_classes: number
+        }[]
+      }
+      get_qr_rotation_token: { Args: { _qr_code_id: string }; Returns: Json }
+      get_student_course_grades: {
+        Args: { _student_id: string }
+        Returns: {
+          course_code: string
+          course_id: string
+          course_name: string
+          credits: number
+          final_percentage: number
+          grade_points: number
+          graded_exams: number
+          is_pass: boolean
+          letter: string
+          semester: number
+          total_exams: number
+        }[]
+      }
+      get_student_gpa: {
+        Args: { _student_id: string }
+        Returns: {
+          credits: number
+          cumulative_credits: number
+          cumulative_gpa: number
+          gpa: number
+          semester: number
+        }[]
+      }
       get_user_roles: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["user_role"][]
@@ -613,6 +1226,144 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_course_instructor: {
+        Args: { _course_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_enrolled_in_course: {
+        Args: { _course_id: string; _user_id: string }
+        Returns: boolean
+      }
+      issue_transcript: {
+        Args: { _student_id: string }
+        Returns: {
+          courses: Json
+          cumulative_gpa: number | null
+          generated_at: string
+          generated_by: string | null
+          id: string
+          semesters: Json
+          student_id: string
+          student_name: string
+          student_number: string
+          total_credits: number
+          verification_code: string
+        }
+      }
+      mark_absent_students: { Args: never; Returns: number }
+      mark_attendance: {
+        Args: {
+          _accuracy?: number
+          _code?: string
+          _latitude?: number
+          _longitude?: number
+          _notes?: string
+          _qr_code_id?: string
+          _token?: string
+        }
+        Returns: Json
+      }
+      qr_rotation_token: {
+        Args: { _secret: string; _window: number }
+        Returns: string
+      }
+      record_certificate_verification: {
+        Args: {
+          _certificate_number: string
+          _ip_address: string
+          _rate_limit: number
+          _user_agent: string
+          _window_seconds: number
+        }
+        Returns: {
+          certificate_number: string
+          course_code: string
+          course_name: string
+          issue_date: string
+          result: string
+          revoked_at: string
+          student_name: string
+          superseded_by_number: string
+          supersedes_number: string
+        }[]
+      }
+      reissue_certificate: {
+        Args: { _certificate_id: string; _grade?: string; _reason: string }
+        Returns: {
+          barcode_data: string
+          certificate_number: string
+          course_id: string
+          created_at: string
+          grade: string | null
+          id: string
+          issue_date: string
+          issued_by: string
+          remarks: string | null
+          revocation_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          signature: string
+          status: string
+          student_id: string
+          supersedes_id: string | null
+          template_id: string | null
+          updated_at: string
+        }
+      }
+      regrade_course_results: {
+        Args: { _course_ids: string[] }
+        Returns: undefined
+      }
+      request_ip: { Args: never; Returns: unknown }
+      session_checkout_window: { Args: never; Returns: unknown }
+      set_attendance_status: {
+        Args: {
+          _qr_code_id: string
+          _reason: string
+          _status: string
+          _student_ids: string[]
+        }
+        Returns: number
+      }
+      set_course_assessment_weights: {
+        Args: { _course_id: string; _weights: Json }
+        Returns: undefined
+      }
+      set_grading_scale_bands: {
+        Args: { _bands: Json; _grading_scale_id: string }
+        Returns: undefined
+      }
+      verify_certificate: {
+        Args: { _certificate_number: string }
+        Returns: {
+          certificate_number: string
+          course_code: string
+          course_name: string
+          grade: string
+          issue_date: string
+          issued_by_name: string
+          revocation_reason: string
+          revoked_at: string
+          signature: string
+          signature_valid: boolean
+          status: string
+          student_name: string
+          student_number: string
+          superseded_by_number: string
+          supersedes_number: string
+        }[]
+      }
+      verify_transcript: {
+        Args: { _verification_code: string }
+        Returns: {
+          courses: Json
+          cumulative_gpa: number
+          generated_at: string
+          student_name: string
+          student_number: string
+          total_credits: number
+        }[]
+      }
     }
     Enums: {
       user_role: "admin" | "staff" | "student"
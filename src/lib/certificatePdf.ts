@@ -0,0 +1,227 @@
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+
+export type CertificateLayoutKey =
+  | 'logo'
+  | 'title'
+  | 'student_name'
+  | 'body'
+  | 'grade'
+  | 'issue_date'
+  | 'certificate_number'
+  | 'signature'
+  | 'qr_code';
+
+// x and y are percentages of the page, measured to the element's centre line.
+// size is a font size in points for text, and a width in millimetres for images.
+export interface CertificateLayoutItem {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export type CertificateLayout = Record<CertificateLayoutKey, CertificateLayoutItem>;
+
+export interface CertificateTemplate {
+  id: string;
+  name: string;
+  title: string;
+  body_text: string;
+  orientation: string;
+  accent_color: string;
+  logo_url: string | null;
+  background_url: string | null;
+  signature_url: string | null;
+  signatory_name: string | null;
+  signatory_title: string | null;
+  layout: CertificateLayout;
+  is_default: boolean;
+}
+
+export interface CertificateDetails {
+  student_name: string;
+  course_name: string;
+  course_code: string;
+  grade: string | null;
+  issue_date: string;
+  certificate_number: string;
+  verification_url: string;
+  // Issuer signature from the database; its start is printed so it can be matched on the verify page
+  signature?: string | null;
+}
+
+export const CERTIFICATE_LAYOUT_LABELS: Record<CertificateLayoutKey, string> = {
+  logo: 'Logo',
+  title: 'Title',
+  student_name: 'Student name',
+  body: 'Body text',
+  grade: 'Grade',
+  issue_date: 'Issue date',
+  certificate_number: 'Certificate number',
+  signature: 'Signature',
+  qr_code: 'Verification QR',
+};
+
+export const DEFAULT_CERTIFICATE_LAYOUT: CertificateLayout = {
+  logo: { x: 50, y: 12, size: 25 },
+  title: { x: 50, y: 26, size: 32 },
+  student_name: { x: 50, y: 42, size: 28 },
+  body: { x: 50, y: 52, size: 14 },
+  grade: { x: 50, y: 60, size: 14 },
+  issue_date: { x: 20, y: 82, size: 11 },
+  certificate_number: { x: 20, y: 87, size: 10 },
+  signature: { x: 50, y: 80, size: 45 },
+  qr_code: { x: 82, y: 80, size: 30 },
+};
+
+export const CERTIFICATE_PLACEHOLDERS = [
+  'student_name',
+  'course_name',
+  'course_code',
+  'grade',
+  'issue_date',
+  'certificate_number',
+];
+
+export const fillCertificatePlaceholders = (text: string, details: CertificateDetails) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => {
+    if (key === 'issue_date') return new Date(details.issue_date).toLocaleDateString();
+    if (CERTIFICATE_PLACEHOLDERS.includes(key)) {
+      return String(details[key as keyof CertificateDetails] ?? 'N/A');
+    }
+    return match;
+  });
+
+/** Short, grouped form of a certificate signature for printing and comparison. */
+export const formatCertificateSignature = (signature: string) =>
+  signature.slice(0, 16).toUpperCase().match(/.{1,4}/g)?.join('-') ?? '';
+
+interface LoadedImage {
+  data: string;
+  format: string;
+  width: number;
+  height: number;
+}
+
+const loadImage = async (url: string): Promise<LoadedImage> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load image ${url}`);
+  const blob = await response.blob();
+
+  const data = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+  const { width, height } = await new Promise<{ width: number; height: number }>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => reject(new Error(`Could not read image ${url}`));
+    image.src = data;
+  });
+
+  return { data, format: blob.type === 'image/png' ? 'PNG' : 'JPEG', width, height };
+};
+
+const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+/** Draws a certificate from a template and returns the document for saving or previewing. */
+export const renderCertificatePdf = async (template: CertificateTemplate, details: CertificateDetails) => {
+  const orientation = template.orientation === 'portrait' ? 'portrait' : 'landscape';
+  const doc = new jsPDF({ orientation, unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const layout = { ...DEFAULT_CERTIFICATE_LAYOUT, ...template.layout };
+  const accent = hexToRgb(template.accent_color);
+
+  const position = (item: CertificateLayoutItem) => ({
+    x: (item.x / 100) * pageWidth,
+    y: (item.y / 100) * pageHeight,
+  });
+
+  const drawText = (key: CertificateLayoutKey, text: string, style: 'normal' | 'bold' = 'normal') => {
+    const item = layout[key];
+    const { x, y } = position(item);
+    doc.setFont('helvetica', style);
+    doc.setFontSize(item.size);
+    const lines = doc.splitTextToSize(text, pageWidth - 40);
+    doc.text(lines, x, y, { align: 'center', baseline: 'middle' });
+  };
+
+  const drawImage = (key: CertificateLayoutKey, image: LoadedImage) => {
+    const item = layout[key];
+    const { x, y } = position(item);
+    const width = item.size;
+    const height = (image.height / image.width) * width;
+    doc.addImage(image.data, image.format, x - width / 2, y - height / 2, width, height);
+    return height;
+  };
+
+  if (template.background_url) {
+    const background = await loadImage(template.background_url);
+    doc.addImage(background.data, background.format, 0, 0, pageWidth, pageHeight);
+  } else {
+    doc.setDrawColor(...accent);
+    doc.setLineWidth(3);
+    doc.rect(8, 8, pageWidth - 16, pageHeight - 16);
+  }
+
+  if (template.logo_url) {
+    drawImage('logo', await loadImage(template.logo_url));
+  }
+
+  doc.setTextColor(...accent);
+  drawText('title', fillCertificatePlaceholders(template.title, details), 'bold');
+
+  doc.setTextColor(33, 33, 33);
+  drawText('student_name', details.student_name, 'bold');
+  drawText('body', fillCertificatePlaceholders(template.body_text, details));
+  if (details.grade) {
+    drawText('grade', `Grade: ${details.grade}`);
+  }
+  drawText('issue_date', `Issued: ${new Date(details.issue_date).toLocaleDateString()}`);
+  drawText('certificate_number', `Certificate No: ${details.certificate_number}`);
+  if (details.signature) {
+    const { x, y } = position(layout.certificate_number);
+    doc.setFontSize(7);
+    doc.text(`Signature: ${formatCertificateSignature(details.signature)}`, x, y + 5, { align: 'center' });
+  }
+
+  // Signature image sits above a line with the signatory's name and title beneath
+  const signature = layout.signature;
+  const signaturePosition = position(signature);
+  if (template.signature_url) {
+    const height = drawImage('signature', await loadImage(template.signature_url));
+    signaturePosition.y += height / 2 + 2;
+  }
+  if (template.signature_url || template.signatory_name) {
+    doc.setDrawColor(33, 33, 33);
+    doc.setLineWidth(0.3);
+    doc.line(
+      signaturePosition.x - signature.size / 2,
+      signaturePosition.y,
+      signaturePosition.x + signature.size / 2,
+      signaturePosition.y
+    );
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.text(template.signatory_name || '', signaturePosition.x, signaturePosition.y + 5, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    doc.text(template.signatory_title || '', signaturePosition.x, signaturePosition.y + 10, { align: 'center' });
+  }
+
+  const qrCode = layout.qr_code;
+  const qrPosition = position(qrCode);
+  const qrCodeDataURL = await QRCode.toDataURL(details.verification_url, { margin: 1 });
+  doc.addImage(qrCodeDataURL, 'PNG', qrPosition.x - qrCode.size / 2, qrPosition.y - qrCode.size / 2, qrCode.size, qrCode.size);
+  doc.setFontSize(8);
+  doc.text('Scan to verify', qrPosition.x, qrPosition.y + qrCode.size / 2 + 4, { align: 'center' });
+
+  return doc;
+};
@@ -0,0 +1,29 @@
+export const getCertificateVerificationUrl = (certificateNumber: string) =>
+  `${window.location.origin}/verify-certificate?cert=${certificateNumber}`;
+
+/** Turns the verification path stored in certificates.barcode_data into a full URL for QR codes. */
+export const resolveCertificateBarcodeData = (barcodeData: string) =>
+  new URL(barcodeData, window.location.origin).toString();
+
+export const CERTIFICATE_ISSUER_NAME = 'WEBCAPZ Technologies';
+
+/** LinkedIn "Add licence or certification" link, prefilled with the certificate. */
+export const getLinkedInAddCertificationUrl = (certificate: {
+  course_name: string;
+  issue_date: string;
+  certificate_number: string;
+}) => {
+  // issue_date is a plain YYYY-MM-DD date; Date reads it as UTC midnight, which
+  // falls in the previous month west of UTC on the first of the month
+  const [issueYear, issueMonth] = certificate.issue_date.split('-').map(Number);
+  const params = new URLSearchParams({
+    startTask: 'CERTIFICATION_NAME',
+    name: certificate.course_name,
+    organizationName: CERTIFICATE_ISSUER_NAME,
+    issueYear: String(issueYear),
+    issueMonth: String(issueMonth),
+    certUrl: getCertificateVerificationUrl(certificate.certificate_number),
+    certId: certificate.certificate_number,
+  });
+  return `https://www.linkedin.com/profile/add?${params}`;
+};
@@ -1,19 +1,76 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { supabase } from '@/integrations/supabase/client';
-import { CheckCircle2, XCircle, Search, Award } from 'lucide-react';
+import { CheckCircle2, XCircle, Search, Award, ShieldAlert, ShieldCheck, Ban, History } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { useSearchParams, useNavigate } from 'react-router-dom';
-import { useEffect } from 'react';
+
+// Response of the public verify edge function
+interface VerifiedCertificate {
+  certificate_number: string;
+  student_name: string | null;
+  course_name: string;
+  course_code: string;
+  issue_date: string;
+  revoked_at: string | null;
+  superseded_by: string | null;
+  supersedes: string | null;
+}
+
+interface VerificationResult {
+  valid: boolean;
+  status: 'valid' | 'revoked' | 'superseded' | 'invalid_signature' | 'not_found';
+  certificate?: VerifiedCertificate;
+}
+
+// Only an active certificate with a valid signature is reported as valid
+const getVerdict = (status: VerificationResult['status'], certificate: VerifiedCertificate) => {
+  if (status === 'invalid_signature') {
+    return {
+      icon: ShieldAlert,
+      color: 'red',
+      title: 'Certificate Record Has Been Altered',
+      message: 'The signature no longer matches this record, so its details cannot be trusted.',
+    };
+  }
+  if (status === 'revoked') {
+    return {
+      icon: Ban,
+      color: 'red',
+      title: 'Certificate Revoked',
+      message: `This certificate was revoked on ${new Date(certificate.revoked_at ?? '').toLocaleDateString()} and is no longer valid.`,
+    };
+  }
+  if (status === 'superseded') {
+    return {
+      icon: History,
+      color: 'amber',
+      title: 'Certificate Superseded',
+      message: `This certificate was replaced on ${new Date(certificate.revoked_at ?? '').toLocaleDateString()} by ${certificate.superseded_by}.`,
+    };
+  }
+  return {
+    icon: CheckCircle2,
+    color: 'green',
+    title: 'Valid Certificate',
+    message: 'Check that the details below match the certificate you were given.',
+  };
+};
+
+const VERDICT_STYLES: Record<string, { border: string; icon: string; text: string }> = {
+  green: { border: 'border-green-500', icon: 'text-green-500', text: 'text-green-600' },
+  amber: { border: 'border-amber-500', icon: 'text-amber-500', text: 'text-amber-600' },
+  red: { border: 'border-red-500', icon: 'text-red-500', text: 'text-red-600' },
+};
 
 const VerifyCertificate = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const [certificateNumber, setCertificateNumber] = useState(searchParams.get('cert') || '');
-  const [verificationResult, setVerificationResult] = useState<any>(null);
+  const [result, setResult] = useState<VerificationResult | null>(null);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -37,27 +94,33 @@ const VerifyCertificate = () => {
     }
 
     setLoading(true);
-    setVerificationResult(null);
+    setResult(null);
 
     try {
-      const { data, error } = await supabase
-        .from('certificates')
-        .select(`
-          *,
-          student:students(student_id, user_profile:profiles(full_name, email)),
-          courses(course_name, course_code),
-          issued_by_profile:profiles!certificates_issued_by_fkey(full_name)
-        `)
-        .eq('certificate_number', numberToVerify.trim())
-        .single();
-
-      if (error || !data) {
-        setVerificationResult({ valid: false });
-      } else {
-        setVerificationResult({ valid: true, ...data });
+      const { data, error } = await supabase.functions.invoke<VerificationResult>(
+        `verify/${encodeURIComponent(numberToVerify.trim())}`,
+        { method: 'GET' }
+      );
+
+      if (error) {
+        const status = error.context instanceof Response ? error.context.status : null;
+        if (status === 404) {
+          setResult({ valid: false, status: 'not_found' });
+          return;
+        }
+        if (status === 429) {
+          toast({
+            title: 'Too many attempts',
+            description: 'Please wait a minute before verifying another certificate',
+            variant: 'destructive',
+          });
+          return;
+        }
+        throw error;
       }
-    } catch (error: any) {
-      setVerificationResult({ valid: false });
+      setResult(data);
+    } catch (error) {
+      console.error('Error verifying certificate:', error);
       toast({
         title: 'Error',
         description: 'Failed to verify certificate',
@@ -68,6 +131,10 @@ const VerifyCertificate = () => {
     }
   };
 
+  const certificate = result?.certificate ?? null;
+  const verdict = result && certificate ? getVerdict(result.status, certificate) : null;
+  const signatureValid = result?.status !== 'invalid_signature';
+
   return (
     <div className="min-h-screen bg-background py-12 px-4">
       <div className="max-w-4xl mx-auto">
@@ -92,7 +159,7 @@ const VerifyCertificate = () => {
                 <Label htmlFor="cert-number" className="sr-only">Certificate Number</Label>
                 <Input
                   id="cert-number"
-                  placeholder="e.g., CERT-2024-1234"
+                  placeholder="e.g., CERT-2025-9F3A6C0E12B4D857"
                   value={certificateNumber}
                   onChange={(e) => setCertificateNumber(e.target.value)}
                   onKeyDown={(e) => e.key === 'Enter' && verifyCertificate()}
@@ -106,63 +173,74 @@ const VerifyCertificate = () => {
           </CardContent>
         </Card>
 
-        {verificationResult && (
-          <Card className={verificationResult.valid ? 'border-green-500' : 'border-red-500'}>
+        {!loading && result && (
+          <Card className={verdict ? VERDICT_STYLES[verdict.color].border : 'border-red-500'}>
             <CardContent className="pt-6">
-              {verificationResult.valid ? (
+              {certificate && verdict ? (
                 <div>
                   <div className="flex items-center justify-center mb-6">
-                    <CheckCircle2 className="h-16 w-16 text-green-500" />
+                    <verdict.icon className={`h-16 w-16 ${VERDICT_STYLES[verdict.color].icon}`} />
                   </div>
-                  <h2 className="text-2xl font-bold text-center mb-6 text-green-600">
-                    Valid Certificate
+                  <h2 className={`text-2xl font-bold text-center mb-2 ${VERDICT_STYLES[verdict.color].text}`}>
+                    {verdict.title}
                   </h2>
+                  <div className="text-center space-y-2 mb-6">
+                    <p className="text-muted-foreground">{verdict.message}</p>
+                    {signatureValid && certificate.superseded_by && (
+                      <Button
+                        variant="link"
+                        onClick={() => navigate(`/verify-certificate?cert=${certificate.superseded_by}`)}
+                      >
+                        Verify the replacement certificate
+                      </Button>
+                    )}
+                    {certificate.supersedes && (
+                      <p className="text-sm text-muted-foreground">
+                        Reissued in place of {certificate.supersedes}
+                      </p>
+                    )}
+                  </div>
                   <div className="space-y-4">
                     <div className="grid grid-cols-2 gap-4">
                       <div>
                         <p className="text-sm text-muted-foreground">Certificate Number</p>
-                        <p className="font-semibold">{verificationResult.certificate_number}</p>
+                        <p className="font-semibold">{certificate.certificate_number}</p>
                       </div>
                       <div>
                         <p className="text-sm text-muted-foreground">Issue Date</p>
                         <p className="font-semibold">
-                          {new Date(verificationResult.issue_date).toLocaleDateString()}
+                          {new Date(certificate.issue_date).toLocaleDateString()}
                         </p>
                       </div>
                       <div>
                         <p className="text-sm text-muted-foreground">Student Name</p>
-                        <p className="font-semibold">{verificationResult.student.user_profile.full_name}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">Student ID</p>
-                        <p className="font-semibold">{verificationResult.student.student_id}</p>
+                        <p className="font-semibold">{certificate.student_name || 'N/A'}</p>
                       </div>
                       <div>
                         <p className="text-sm text-muted-foreground">Course</p>
-                        <p className="font-semibold">{verificationResult.courses.course_name}</p>
+                        <p className="font-semibold">{certificate.course_name}</p>
                       </div>
                       <div>
                         <p className="text-sm text-muted-foreground">Course Code</p>
-                        <p className="font-semibold">{verificationResult.courses.course_code}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">Grade</p>
-                        <p className="font-semibold">{verificationResult.grade || 'N/A'}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">Issued By</p>
-                        <p className="font-semibold">{verificationResult.issued_by_profile.full_name}</p>
+                        <p className="font-semibold">{certificate.course_code}</p>
                       </div>
                     </div>
-                    {verificationResult.barcode_data && (
-                      <div className="text-center mt-6">
-                        <img 
-                          src={verificationResult.barcode_data} 
-                          alt="Certificate QR Code" 
-                          className="mx-auto h-32 w-32"
-                        />
+                    <div
+                      className={`flex items-center rounded-md border p-3 ${
+                        signatureValid ? 'border-green-500' : 'border-red-500'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        {signatureValid ? (
+                          <ShieldCheck className="h-5 w-5 text-green-500" />
+                        ) : (
+                          <ShieldAlert className="h-5 w-5 text-red-500" />
+                        )}
+                        <span className="font-semibold">
+                          {signatureValid ? 'Signature valid' : 'Signature invalid'}
+                        </span>
                       </div>
-                    )}
+                    </div>
                   </div>
                 </div>
               ) : (
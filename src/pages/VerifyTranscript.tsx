@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { CheckCircle2, XCircle, Search, FileText } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+
+interface TranscriptCourse {
+  course_code: string;
+  course_name: string;
+  credits: number;
+  semester: number;
+  letter: string | null;
+  graded_exams: number;
+  total_exams: number;
+}
+
+interface VerifiedTranscript {
+  student_name: string;
+  student_number: string;
+  courses: TranscriptCourse[];
+  cumulative_gpa: number | null;
+  total_credits: number;
+  generated_at: string;
+}
+
+const VerifyTranscript = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [code, setCode] = useState(searchParams.get('code') || '');
+  const [transcript, setTranscript] = useState<VerifiedTranscript | null>(null);
+  const [checked, setChecked] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const codeParam = searchParams.get('code');
+    if (codeParam) {
+      setCode(codeParam);
+      verifyTranscript(codeParam);
+    }
+  }, [searchParams]);
+
+  const verifyTranscript = async (codeToVerify = code) => {
+    if (!codeToVerify.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Please enter a verification code',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setLoading(true);
+    setTranscript(null);
+    try {
+      const { data, error } = await supabase.rpc('verify_transcript', {
+        _verification_code: codeToVerify.trim(),
+      });
+
+      if (error) throw error;
+      const match = data?.[0];
+      setTranscript(match ? { ...match, courses: match.courses as unknown as TranscriptCourse[] } : null);
+    } catch (error) {
+      console.error('Error verifying transcript:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to verify transcript',
+        variant: 'destructive',
+      });
+    } finally {
+      setChecked(true);
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-12 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mb-8">
+          <div className="flex justify-center mb-4">
+            <FileText className="h-16 w-16 text-primary" />
+          </div>
+          <h1 className="text-4xl font-bold mb-2">Transcript Verification</h1>
+          <p className="text-muted-foreground">Check that a transcript was issued by the institution</p>
+        </div>
+
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Enter Verification Code</CardTitle>
+            <CardDescription>
+              The code is printed at the bottom of the transcript, next to its QR code
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex space-x-2">
+              <div className="flex-1">
+                <Label htmlFor="verification-code" className="sr-only">Verification Code</Label>
+                <Input
+                  id="verification-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && verifyTranscript()}
+                />
+              </div>
+              <Button onClick={() => verifyTranscript()} disabled={loading}>
+                <Search className="mr-2 h-4 w-4" />
+                {loading ? 'Verifying...' : 'Verify'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {checked && !loading && (
+          <Card className={transcript ? 'border-green-500' : 'border-red-500'}>
+            <CardContent className="pt-6">
+              {transcript ? (
+                <div className="space-y-6">
+                  <div className="flex flex-col items-center">
+                    <CheckCircle2 className="h-16 w-16 text-green-500 mb-4" />
+                    <h2 className="text-2xl font-bold text-green-600">Valid Transcript</h2>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Student Name</p>
+                      <p className="font-semibold">{transcript.student_name}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Student ID</p>
+                      <p className="font-semibold">{transcript.student_number}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Cumulative GPA</p>
+                      <p className="font-semibold">
+                        {transcript.cumulative_gpa == null ? '-' : Number(transcript.cumulative_gpa).toFixed(2)}
+                        {' '}({transcript.total_credits} credits)
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Issued</p>
+                      <p className="font-semibold">{new Date(transcript.generated_at).toLocaleDateString()}</p>
+                    </div>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Semester</TableHead>
+                        <TableHead>Course</TableHead>
+                        <TableHead>Credits</TableHead>
+                        <TableHead>Grade</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {transcript.courses.map((course) => (
+                        <TableRow key={`${course.semester}-${course.course_code}`}>
+                          <TableCell>{course.semester}</TableCell>
+                          <TableCell>{course.course_code} - {course.course_name}</TableCell>
+                          <TableCell>{course.credits}</TableCell>
+                          <TableCell>
+                            {course.graded_exams < course.total_exams ? 'In progress' : course.letter || '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <div className="text-center">
+                  <XCircle className="h-16 w-16 text-red-500 mx-auto mb-4" />
+                  <h2 className="text-2xl font-bold mb-4 text-red-600">Invalid Transcript</h2>
+                  <p className="text-muted-foreground">
+                    No transcript was issued with this code. Please check the code and try again.
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="text-center mt-8">
+          <Button variant="outline" onClick={() => navigate('/')}>
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyTranscript;
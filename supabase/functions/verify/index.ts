@@ -0,0 +1,100 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Public endpoint: GET /verify/:certificate_number
+// Returns only what an employer needs to confirm a certificate, never contact details.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+}
+
+const RATE_LIMIT = 20
+const RATE_LIMIT_WINDOW_SECONDS = 60
+
+const json = (body: unknown, status: number, extraHeaders: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...extraHeaders, 'Content-Type': 'application/json' }
+  })
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  if (req.method !== 'GET') {
+    return json({ error: 'Method not allowed' }, 405, { 'Allow': 'GET, OPTIONS' })
+  }
+
+  try {
+    const match = new URL(req.url).pathname.match(/\/verify\/([^/]+)\/?$/)
+    const certificateNumber = match ? decodeURIComponent(match[1]).trim().toUpperCase() : ''
+
+    if (!certificateNumber) {
+      return json({ error: 'Certificate number is required' }, 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    // The gateway appends the address it received the request from, so only the
+    // rightmost X-Forwarded-For entry is trustworthy; earlier ones come from the client
+    const ipAddress = req.headers.get('cf-connecting-ip')
+      || req.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+      || null
+    const userAgent = req.headers.get('user-agent')
+
+    const { data, error } = await supabaseAdmin.rpc('record_certificate_verification', {
+      _certificate_number: certificateNumber,
+      _ip_address: ipAddress,
+      _user_agent: userAgent,
+      _rate_limit: RATE_LIMIT,
+      _window_seconds: RATE_LIMIT_WINDOW_SECONDS
+    })
+
+    if (error) throw error
+
+    const verification = data?.[0]
+    if (!verification) throw new Error('Verification returned no result')
+
+    if (verification.result === 'rate_limited') {
+      return json(
+        { error: 'Too many verification attempts. Please try again shortly.' },
+        429,
+        { 'Retry-After': String(RATE_LIMIT_WINDOW_SECONDS) }
+      )
+    }
+
+    if (verification.result === 'not_found') {
+      return json({ valid: false, status: 'not_found' }, 404)
+    }
+
+    return json({
+      valid: verification.result === 'valid',
+      status: verification.result,
+      certificate: {
+        certificate_number: verification.certificate_number,
+        student_name: verification.student_name,
+        course_name: verification.course_name,
+        course_code: verification.course_code,
+        issue_date: verification.issue_date,
+        revoked_at: verification.revoked_at,
+        superseded_by: verification.superseded_by_number,
+        supersedes: verification.supersedes_number,
+      }
+    }, 200)
+
+  } catch (error) {
+    // Callers are anonymous, so internal details only go to the function logs
+    console.error('Certificate verification failed:', error)
+    return json({ error: 'Certificate verification is unavailable. Please try again later.' }, 500)
+  }
+})
@@ -0,0 +1,71 @@
+-- Create course enrollments table linking students to the courses they take
+CREATE TABLE public.course_enrollments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id uuid NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  course_id uuid NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'enrolled',
+  enrolled_at timestamp with time zone NOT NULL DEFAULT now(),
+  dropped_at timestamp with time zone,
+  enrolled_by uuid REFERENCES public.profiles(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE(student_id, course_id),
+  CONSTRAINT check_enrollment_status CHECK (status IN ('enrolled', 'waitlisted', 'dropped'))
+);
+
+CREATE INDEX idx_course_enrollments_course_id ON public.course_enrollments(course_id);
+
+-- Enable RLS on course enrollments
+ALTER TABLE public.course_enrollments ENABLE ROW LEVEL SECURITY;
+
+-- Course enrollments policies
+CREATE POLICY "Students can view their own enrollments"
+ON public.course_enrollments
+FOR SELECT
+USING (student_id IN (SELECT id FROM students WHERE user_id = auth.uid()));
+
+CREATE POLICY "Staff can manage enrollments"
+ON public.course_enrollments
+FOR ALL
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'staff'::text]));
+
+-- Add trigger for updated_at on course enrollments
+CREATE TRIGGER update_course_enrollments_updated_at
+BEFORE UPDATE ON public.course_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Check whether a user is actively enrolled in a course
+CREATE OR REPLACE FUNCTION public.is_enrolled_in_course(_user_id uuid, _course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.course_enrollments ce
+    JOIN public.students s ON s.id = ce.student_id
+    WHERE s.user_id = _user_id
+      AND ce.course_id = _course_id
+      AND ce.status = 'enrolled'
+  )
+$$;
+
+-- Students may only record attendance for course sessions they are enrolled in
+DROP POLICY IF EXISTS "Students can insert their own attendance" ON public.attendance_records;
+DROP POLICY IF EXISTS "Students can create their own attendance" ON public.attendance_records;
+
+CREATE POLICY "Students can create attendance for enrolled courses"
+ON public.attendance_records
+FOR INSERT
+WITH CHECK (
+  student_id IN (SELECT id FROM students WHERE user_id = auth.uid())
+  AND EXISTS (
+    SELECT 1
+    FROM qr_codes q
+    WHERE q.id = qr_code_id
+      AND (q.qr_type = 'general' OR public.is_enrolled_in_course(auth.uid(), q.course_id))
+  )
+);
@@ -0,0 +1,98 @@
+-- Server-side attendance check-in/check-out
+-- The QR payload only carries the secret session code; expiry, enrollment and
+-- the check-in/check-out decision are all enforced here.
+CREATE OR REPLACE FUNCTION public.mark_attendance(_code text, _notes text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _qr public.qr_codes%ROWTYPE;
+  _student_id uuid;
+  _record public.attendance_records%ROWTYPE;
+  _min_duration interval := interval '3 hours';
+  _now timestamp with time zone := now();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to mark attendance';
+  END IF;
+
+  SELECT * INTO _qr FROM public.qr_codes WHERE code = _code;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid QR code';
+  END IF;
+
+  IF _qr.expires_at IS NOT NULL AND _qr.expires_at < _now THEN
+    RAISE EXCEPTION 'This QR code has expired. Please get a new one.';
+  END IF;
+
+  SELECT id INTO _student_id FROM public.students WHERE user_id = auth.uid();
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Check-in/check-out is currently only available for students';
+  END IF;
+
+  IF _qr.qr_type = 'course' AND NOT public.is_enrolled_in_course(auth.uid(), _qr.course_id) THEN
+    RAISE EXCEPTION 'You are not enrolled in the course for this session';
+  END IF;
+
+  -- Serialise concurrent scans by the same student for the same session
+  PERFORM pg_advisory_xact_lock(hashtext(_qr.id::text || ':' || _student_id::text));
+
+  SELECT * INTO _record
+  FROM public.attendance_records
+  WHERE qr_code_id = _qr.id AND student_id = _student_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.attendance_records (qr_code_id, student_id, check_in_time, status, notes)
+    VALUES (_qr.id, _student_id, _now, 'present', NULLIF(trim(_notes), ''))
+    RETURNING * INTO _record;
+
+    RETURN jsonb_build_object(
+      'action', 'check_in',
+      'session_name', _qr.session_name,
+      'check_in_time', _record.check_in_time
+    );
+  END IF;
+
+  IF _record.check_out_time IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already completed your attendance for this session';
+  END IF;
+
+  IF _now - _record.check_in_time < _min_duration THEN
+    RAISE EXCEPTION 'You must wait at least 3 hours before checking out. % hours remaining.',
+      round(extract(epoch FROM (_min_duration - (_now - _record.check_in_time))) / 3600, 1);
+  END IF;
+
+  UPDATE public.attendance_records
+  SET check_out_time = _now,
+      notes = COALESCE(NULLIF(trim(_notes), ''), notes)
+  WHERE id = _record.id
+  RETURNING * INTO _record;
+
+  RETURN jsonb_build_object(
+    'action', 'check_out',
+    'session_name', _qr.session_name,
+    'check_in_time', _record.check_in_time,
+    'check_out_time', _record.check_out_time,
+    'duration_hours', round(extract(epoch FROM (_record.check_out_time - _record.check_in_time)) / 3600, 1)
+  );
+END;
+$$;
+
+-- Students no longer write attendance directly; mark_attendance is the only path
+DROP POLICY IF EXISTS "Students can create attendance for enrolled courses" ON public.attendance_records;
+
+-- Students must not be able to read session codes they have not scanned
+DROP POLICY IF EXISTS "Everyone can view QR codes" ON public.qr_codes;
+DROP POLICY IF EXISTS "Students can view active QR codes" ON public.qr_codes;
+
+CREATE POLICY "Students can view QR codes they attended"
+ON public.qr_codes
+FOR SELECT
+TO authenticated
+USING (id IN (
+  SELECT qr_code_id
+  FROM attendance_records
+  WHERE student_id IN (SELECT id FROM students WHERE user_id = auth.uid())
+));
@@ -0,0 +1,159 @@
+-- Rotating (TOTP-style) attendance codes
+-- Live sessions project a token derived from a per-session secret and the
+-- current time window, so a photographed code stops working within seconds.
+ALTER TABLE public.qr_codes
+ADD COLUMN rotation_secret text NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+ADD COLUMN rotation_interval_seconds integer;
+
+ALTER TABLE public.qr_codes ADD CONSTRAINT check_rotation_interval
+CHECK (rotation_interval_seconds IS NULL OR rotation_interval_seconds BETWEEN 5 AND 300);
+
+-- Session codes and secrets are never readable from the client; only the
+-- columns below may be selected. Staff obtain live tokens through get_qr_rotation_token.
+REVOKE SELECT ON public.qr_codes FROM anon, authenticated;
+GRANT SELECT (id, course_id, session_name, session_date, expires_at, created_by, created_at, qr_type, rotation_interval_seconds)
+ON public.qr_codes TO authenticated;
+
+-- Derive the token for a session secret and time window
+CREATE OR REPLACE FUNCTION public.qr_rotation_token(_secret text, _window bigint)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT left(encode(extensions.hmac(_window::text, _secret, 'sha256'), 'hex'), 12)
+$$;
+
+-- Current token for a live session, for display on the projector
+CREATE OR REPLACE FUNCTION public.get_qr_rotation_token(_qr_code_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _qr public.qr_codes%ROWTYPE;
+  _epoch numeric := extract(epoch FROM now());
+  _window bigint;
+BEGIN
+  IF COALESCE(public.get_current_user_role(), '') NOT IN ('admin', 'staff') THEN
+    RAISE EXCEPTION 'Only staff can display attendance codes';
+  END IF;
+
+  SELECT * INTO _qr FROM public.qr_codes WHERE id = _qr_code_id;
+  IF NOT FOUND OR _qr.rotation_interval_seconds IS NULL THEN
+    RAISE EXCEPTION 'This session does not use rotating codes';
+  END IF;
+
+  IF _qr.expires_at IS NOT NULL AND _qr.expires_at < now() THEN
+    RAISE EXCEPTION 'This session has expired';
+  END IF;
+
+  _window := floor(_epoch / _qr.rotation_interval_seconds);
+
+  RETURN jsonb_build_object(
+    'token', public.qr_rotation_token(_qr.rotation_secret, _window),
+    'expires_in', (_window + 1) * _qr.rotation_interval_seconds - _epoch
+  );
+END;
+$$;
+
+-- Recreate mark_attendance with the rotating token check
+DROP FUNCTION IF EXISTS public.mark_attendance(text, text);
+
+CREATE OR REPLACE FUNCTION public.mark_attendance(_code text, _notes text DEFAULT NULL, _token text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _qr public.qr_codes%ROWTYPE;
+  _student_id uuid;
+  _record public.attendance_records%ROWTYPE;
+  _min_duration interval := interval '3 hours';
+  _now timestamp with time zone := now();
+  _grace_seconds integer := 10;
+  _window bigint;
+  _grace_window bigint;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to mark attendance';
+  END IF;
+
+  SELECT * INTO _qr FROM public.qr_codes WHERE code = _code;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid QR code';
+  END IF;
+
+  IF _qr.expires_at IS NOT NULL AND _qr.expires_at < _now THEN
+    RAISE EXCEPTION 'This QR code has expired. Please get a new one.';
+  END IF;
+
+  -- Rotating sessions only accept the token for the current window, or the
+  -- previous one while still inside the grace period
+  IF _qr.rotation_interval_seconds IS NOT NULL THEN
+    _window := floor(extract(epoch FROM _now) / _qr.rotation_interval_seconds);
+    _grace_window := floor((extract(epoch FROM _now) - _grace_seconds) / _qr.rotation_interval_seconds);
+
+    IF _token IS NULL OR _token NOT IN (
+      public.qr_rotation_token(_qr.rotation_secret, _window),
+      public.qr_rotation_token(_qr.rotation_secret, _grace_window)
+    ) THEN
+      RAISE EXCEPTION 'This QR code is no longer current. Please scan the code on screen again.';
+    END IF;
+  END IF;
+
+  SELECT id INTO _student_id FROM public.students WHERE user_id = auth.uid();
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Check-in/check-out is currently only available for students';
+  END IF;
+
+  IF _qr.qr_type = 'course' AND NOT public.is_enrolled_in_course(auth.uid(), _qr.course_id) THEN
+    RAISE EXCEPTION 'You are not enrolled in the course for this session';
+  END IF;
+
+  -- Serialise concurrent scans by the same student for the same session
+  PERFORM pg_advisory_xact_lock(hashtext(_qr.id::text || ':' || _student_id::text));
+
+  SELECT * INTO _record
+  FROM public.attendance_records
+  WHERE qr_code_id = _qr.id AND student_id = _student_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.attendance_records (qr_code_id, student_id, check_in_time, status, notes)
+    VALUES (_qr.id, _student_id, _now, 'present', NULLIF(trim(_notes), ''))
+    RETURNING * INTO _record;
+
+    RETURN jsonb_build_object(
+      'action', 'check_in',
+      'session_name', _qr.session_name,
+      'check_in_time', _record.check_in_time
+    );
+  END IF;
+
+  IF _record.check_out_time IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already completed your attendance for this session';
+  END IF;
+
+  IF _now - _record.check_in_time < _min_duration THEN
+    RAISE EXCEPTION 'You must wait at least 3 hours before checking out. % hours remaining.',
+      round(extract(epoch FROM (_min_duration - (_now - _record.check_in_time))) / 3600, 1);
+  END IF;
+
+  UPDATE public.attendance_records
+  SET check_out_time = _now,
+      notes = COALESCE(NULLIF(trim(_notes), ''), notes)
+  WHERE id = _record.id
+  RETURNING * INTO _record;
+
+  RETURN jsonb_build_object(
+    'action', 'check_out',
+    'session_name', _qr.session_name,
+    'check_in_time', _record.check_in_time,
+    'check_out_time', _record.check_out_time,
+    'duration_hours', round(extract(epoch FROM (_record.check_out_time - _record.check_in_time)) / 3600, 1)
+  );
+END;
+$$;
@@ -0,0 +1,219 @@
+-- Geofenced and network-restricted attendance sessions
+ALTER TABLE public.qr_codes
+ADD COLUMN location_latitude double precision,
+ADD COLUMN location_longitude double precision,
+ADD COLUMN location_radius_meters integer,
+ADD COLUMN allowed_ip_range cidr,
+ADD COLUMN fence_enforcement text NOT NULL DEFAULT 'reject';
+
+ALTER TABLE public.qr_codes ADD CONSTRAINT check_fence_enforcement
+CHECK (fence_enforcement IN ('reject', 'flag'));
+
+ALTER TABLE public.qr_codes ADD CONSTRAINT check_location_fence
+CHECK (
+  (location_latitude IS NULL AND location_longitude IS NULL AND location_radius_meters IS NULL)
+  OR (location_latitude BETWEEN -90 AND 90
+      AND location_longitude BETWEEN -180 AND 180
+      AND location_radius_meters > 0)
+);
+
+GRANT SELECT (location_latitude, location_longitude, location_radius_meters, allowed_ip_range, fence_enforcement)
+ON public.qr_codes TO authenticated;
+
+-- Where the check-in came from, and why it was flagged if it was outside the fence
+ALTER TABLE public.attendance_records
+ADD COLUMN check_in_latitude double precision,
+ADD COLUMN check_in_longitude double precision,
+ADD COLUMN check_in_accuracy_meters double precision,
+ADD COLUMN check_in_ip inet,
+ADD COLUMN flagged boolean NOT NULL DEFAULT false,
+ADD COLUMN flag_reason text;
+
+-- Great-circle distance between two points in meters
+CREATE OR REPLACE FUNCTION public.distance_meters(
+  _lat1 double precision,
+  _lng1 double precision,
+  _lat2 double precision,
+  _lng2 double precision
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2)
+    + cos(radians(_lat1)) * cos(radians(_lat2)) * power(sin(radians(_lng2 - _lng1) / 2), 2)
+  ))
+$$;
+
+-- Client address as forwarded by the API gateway
+CREATE OR REPLACE FUNCTION public.request_ip()
+RETURNS inet
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _forwarded text;
+BEGIN
+  _forwarded := current_setting('request.headers', true)::json ->> 'x-forwarded-for';
+  IF _forwarded IS NULL OR _forwarded = '' THEN
+    RETURN NULL;
+  END IF;
+  RETURN trim(split_part(_forwarded, ',', 1))::inet;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+-- Recreate mark_attendance with location and network checks
+DROP FUNCTION IF EXISTS public.mark_attendance(text, text, text);
+
+CREATE OR REPLACE FUNCTION public.mark_attendance(
+  _code text,
+  _notes text DEFAULT NULL,
+  _token text DEFAULT NULL,
+  _latitude double precision DEFAULT NULL,
+  _longitude double precision DEFAULT NULL,
+  _accuracy double precision DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _qr public.qr_codes%ROWTYPE;
+  _student_id uuid;
+  _record public.attendance_records%ROWTYPE;
+  _min_duration interval := interval '3 hours';
+  _now timestamp with time zone := now();
+  _grace_seconds integer := 10;
+  _window bigint;
+  _grace_window bigint;
+  _ip inet := public.request_ip();
+  _fence_reasons text[] := ARRAY[]::text[];
+  _fence_reason text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to mark attendance';
+  END IF;
+
+  SELECT * INTO _qr FROM public.qr_codes WHERE code = _code;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid QR code';
+  END IF;
+
+  IF _qr.expires_at IS NOT NULL AND _qr.expires_at < _now THEN
+    RAISE EXCEPTION 'This QR code has expired. Please get a new one.';
+  END IF;
+
+  -- Rotating sessions only accept the token for the current window, or the
+  -- previous one while still inside the grace period
+  IF _qr.rotation_interval_seconds IS NOT NULL THEN
+    _window := floor(extract(epoch FROM _now) / _qr.rotation_interval_seconds);
+    _grace_window := floor((extract(epoch FROM _now) - _grace_seconds) / _qr.rotation_interval_seconds);
+
+    IF _token IS NULL OR _token NOT IN (
+      public.qr_rotation_token(_qr.rotation_secret, _window),
+      public.qr_rotation_token(_qr.rotation_secret, _grace_window)
+    ) THEN
+      RAISE EXCEPTION 'This QR code is no longer current. Please scan the code on screen again.';
+    END IF;
+  END IF;
+
+  SELECT id INTO _student_id FROM public.students WHERE user_id = auth.uid();
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Check-in/check-out is currently only available for students';
+  END IF;
+
+  IF _qr.qr_type = 'course' AND NOT public.is_enrolled_in_course(auth.uid(), _qr.course_id) THEN
+    RAISE EXCEPTION 'You are not enrolled in the course for this session';
+  END IF;
+
+  -- Location fence
+  IF _qr.location_radius_meters IS NOT NULL THEN
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      _fence_reasons := _fence_reasons || 'Location was not shared'::text;
+    ELSIF public.distance_meters(_qr.location_latitude, _qr.location_longitude, _latitude, _longitude)
+          > _qr.location_radius_meters THEN
+      _fence_reasons := _fence_reasons || format(
+        'Checked in %s m from the session location (allowed %s m)',
+        round(public.distance_meters(_qr.location_latitude, _qr.location_longitude, _latitude, _longitude)),
+        _qr.location_radius_meters
+      );
+    END IF;
+  END IF;
+
+  -- Network fence
+  IF _qr.allowed_ip_range IS NOT NULL AND (_ip IS NULL OR NOT _ip <<= _qr.allowed_ip_range) THEN
+    _fence_reasons := _fence_reasons || format('Checked in from outside the allowed network (%s)', COALESCE(host(_ip), 'unknown address'));
+  END IF;
+
+  _fence_reason := NULLIF(array_to_string(_fence_reasons, '; '), '');
+
+  IF _fence_reason IS NOT NULL AND _qr.fence_enforcement = 'reject' THEN
+    RAISE EXCEPTION 'Attendance rejected: %', _fence_reason;
+  END IF;
+
+  -- Serialise concurrent scans by the same student for the same session
+  PERFORM pg_advisory_xact_lock(hashtext(_qr.id::text || ':' || _student_id::text));
+
+  SELECT * INTO _record
+  FROM public.attendance_records
+  WHERE qr_code_id = _qr.id AND student_id = _student_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.attendance_records (
+      qr_code_id, student_id, check_in_time, status, notes,
+      check_in_latitude, check_in_longitude, check_in_accuracy_meters, check_in_ip,
+      flagged, flag_reason
+    )
+    VALUES (
+      _qr.id, _student_id, _now, 'present', NULLIF(trim(_notes), ''),
+      _latitude, _longitude, _accuracy, _ip,
+      _fence_reason IS NOT NULL, _fence_reason
+    )
+    RETURNING * INTO _record;
+
+    RETURN jsonb_build_object(
+      'action', 'check_in',
+      'session_name', _qr.session_name,
+      'check_in_time', _record.check_in_time,
+      'flagged', _record.flagged,
+      'flag_reason', _record.flag_reason
+    );
+  END IF;
+
+  IF _record.check_out_time IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already completed your attendance for this session';
+  END IF;
+
+  IF _now - _record.check_in_time < _min_duration THEN
+    RAISE EXCEPTION 'You must wait at least 3 hours before checking out. % hours remaining.',
+      round(extract(epoch FROM (_min_duration - (_now - _record.check_in_time))) / 3600, 1);
+  END IF;
+
+  UPDATE public.attendance_records
+  SET check_out_time = _now,
+      notes = COALESCE(NULLIF(trim(_notes), ''), notes),
+      flagged = flagged OR _fence_reason IS NOT NULL,
+      flag_reason = CASE
+        WHEN _fence_reason IS NULL THEN flag_reason
+        ELSE concat_ws('; ', flag_reason, 'Check-out: ' || _fence_reason)
+      END
+  WHERE id = _record.id
+  RETURNING * INTO _record;
+
+  RETURN jsonb_build_object(
+    'action', 'check_out',
+    'session_name', _qr.session_name,
+    'check_in_time', _record.check_in_time,
+    'check_out_time', _record.check_out_time,
+    'duration_hours', round(extract(epoch FROM (_record.check_out_time - _record.check_in_time)) / 3600, 1),
+    'flagged', _record.flagged,
+    'flag_reason', _record.flag_reason
+  );
+END;
+$$;
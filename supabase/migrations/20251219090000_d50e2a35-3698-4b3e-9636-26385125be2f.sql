@@ -0,0 +1,310 @@
+-- Derive late/absent attendance status from class schedules
+
+-- Institution-wide settings
+CREATE TABLE public.app_settings (
+  key text NOT NULL PRIMARY KEY,
+  value jsonb NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view settings"
+ON public.app_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage settings"
+ON public.app_settings
+FOR ALL
+USING (get_current_user_role() = 'admin');
+
+CREATE TRIGGER update_app_settings_updated_at
+BEFORE UPDATE ON public.app_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Class dates and times are entered in the institution's local time
+INSERT INTO public.app_settings (key, value) VALUES ('timezone', '"UTC"');
+
+CREATE OR REPLACE FUNCTION public.app_timezone()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT value #>> '{}' FROM public.app_settings WHERE key = 'timezone'), 'UTC')
+$$;
+
+-- Grace period before a check-in counts as late, and when absences were last recorded
+ALTER TABLE public.class_schedules
+ADD COLUMN late_grace_minutes integer NOT NULL DEFAULT 10,
+ADD COLUMN absences_recorded_at timestamp with time zone;
+
+ALTER TABLE public.class_schedules ADD CONSTRAINT check_late_grace_minutes
+CHECK (late_grace_minutes BETWEEN 0 AND 240);
+
+-- Past classes are not back-filled with absences
+UPDATE public.class_schedules SET absences_recorded_at = now() WHERE class_date < CURRENT_DATE;
+
+-- Tie attendance sessions to the class they were taken in
+ALTER TABLE public.qr_codes
+ADD COLUMN class_schedule_id uuid REFERENCES public.class_schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_qr_codes_class_schedule_id ON public.qr_codes(class_schedule_id);
+
+GRANT SELECT (class_schedule_id) ON public.qr_codes TO authenticated;
+
+-- Absent students have no check-in time
+ALTER TABLE public.attendance_records ALTER COLUMN check_in_time DROP NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.mark_attendance(
+  _code text,
+  _notes text DEFAULT NULL,
+  _token text DEFAULT NULL,
+  _latitude double precision DEFAULT NULL,
+  _longitude double precision DEFAULT NULL,
+  _accuracy double precision DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _qr public.qr_codes%ROWTYPE;
+  _student_id uuid;
+  _record public.attendance_records%ROWTYPE;
+  _min_duration interval := interval '3 hours';
+  _now timestamp with time zone := now();
+  _grace_seconds integer := 10;
+  _window bigint;
+  _grace_window bigint;
+  _ip inet := public.request_ip();
+  _fence_reasons text[] := ARRAY[]::text[];
+  _fence_reason text;
+  _schedule public.class_schedules%ROWTYPE;
+  _status text := 'present';
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to mark attendance';
+  END IF;
+
+  SELECT * INTO _qr FROM public.qr_codes WHERE code = _code;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid QR code';
+  END IF;
+
+  IF _qr.expires_at IS NOT NULL AND _qr.expires_at < _now THEN
+    RAISE EXCEPTION 'This QR code has expired. Please get a new one.';
+  END IF;
+
+  -- Rotating sessions only accept the token for the current window, or the
+  -- previous one while still inside the grace period
+  IF _qr.rotation_interval_seconds IS NOT NULL THEN
+    _window := floor(extract(epoch FROM _now) / _qr.rotation_interval_seconds);
+    _grace_window := floor((extract(epoch FROM _now) - _grace_seconds) / _qr.rotation_interval_seconds);
+
+    IF _token IS NULL OR _token NOT IN (
+      public.qr_rotation_token(_qr.rotation_secret, _window),
+      public.qr_rotation_token(_qr.rotation_secret, _grace_window)
+    ) THEN
+      RAISE EXCEPTION 'This QR code is no longer current. Please scan the code on screen again.';
+    END IF;
+  END IF;
+
+  SELECT id INTO _student_id FROM public.students WHERE user_id = auth.uid();
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Check-in/check-out is currently only available for students';
+  END IF;
+
+  IF _qr.qr_type = 'course' AND NOT public.is_enrolled_in_course(auth.uid(), _qr.course_id) THEN
+    RAISE EXCEPTION 'You are not enrolled in the course for this session';
+  END IF;
+
+  -- Location fence
+  IF _qr.location_radius_meters IS NOT NULL THEN
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      _fence_reasons := _fence_reasons || 'Location was not shared'::text;
+    ELSIF public.distance_meters(_qr.location_latitude, _qr.location_longitude, _latitude, _longitude)
+          > _qr.location_radius_meters THEN
+      _fence_reasons := _fence_reasons || format(
+        'Checked in %s m from the session location (allowed %s m)',
+        round(public.distance_meters(_qr.location_latitude, _qr.location_longitude, _latitude, _longitude)),
+        _qr.location_radius_meters
+      );
+    END IF;
+  END IF;
+
+  -- Network fence
+  IF _qr.allowed_ip_range IS NOT NULL AND (_ip IS NULL OR NOT _ip <<= _qr.allowed_ip_range) THEN
+    _fence_reasons := _fence_reasons || format('Checked in from outside the allowed network (%s)', COALESCE(host(_ip), 'unknown address'));
+  END IF;
+
+  _fence_reason := NULLIF(array_to_string(_fence_reasons, '; '), '');
+
+  IF _fence_reason IS NOT NULL AND _qr.fence_enforcement = 'reject' THEN
+    RAISE EXCEPTION 'Attendance rejected: %', _fence_reason;
+  END IF;
+
+  -- Sessions tied to a scheduled class mark students late after the grace period
+  IF _qr.class_schedule_id IS NOT NULL THEN
+    SELECT * INTO _schedule FROM public.class_schedules WHERE id = _qr.class_schedule_id;
+    IF FOUND AND _now > ((_schedule.class_date + _schedule.start_time) AT TIME ZONE public.app_timezone())
+                       + make_interval(mins => _schedule.late_grace_minutes) THEN
+      _status := 'late';
+    END IF;
+  END IF;
+
+  -- Serialise concurrent scans by the same student for the same session
+  PERFORM pg_advisory_xact_lock(hashtext(_qr.id::text || ':' || _student_id::text));
+
+  SELECT * INTO _record
+  FROM public.attendance_records
+  WHERE qr_code_id = _qr.id AND student_id = _student_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.attendance_records (
+      qr_code_id, student_id, check_in_time, status, notes,
+      check_in_latitude, check_in_longitude, check_in_accuracy_meters, check_in_ip,
+      flagged, flag_reason
+    )
+    VALUES (
+      _qr.id, _student_id, _now, _status, NULLIF(trim(_notes), ''),
+      _latitude, _longitude, _accuracy, _ip,
+      _fence_reason IS NOT NULL, _fence_reason
+    )
+    RETURNING * INTO _record;
+
+    RETURN jsonb_build_object(
+      'action', 'check_in',
+      'session_name', _qr.session_name,
+      'check_in_time', _record.check_in_time,
+      'status', _record.status,
+      'flagged', _record.flagged,
+      'flag_reason', _record.flag_reason
+    );
+  END IF;
+
+  IF _record.check_in_time IS NULL THEN
+    RAISE EXCEPTION 'This class has ended and you have been marked absent';
+  END IF;
+
+  IF _record.check_out_time IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already completed your attendance for this session';
+  END IF;
+
+  IF _now - _record.check_in_time < _min_duration THEN
+    RAISE EXCEPTION 'You must wait at least 3 hours before checking out. % hours remaining.',
+      round(extract(epoch FROM (_min_duration - (_now - _record.check_in_time))) / 3600, 1);
+  END IF;
+
+  UPDATE public.attendance_records
+  SET check_out_time = _now,
+      notes = COALESCE(NULLIF(trim(_notes), ''), notes),
+      flagged = flagged OR _fence_reason IS NOT NULL,
+      flag_reason = CASE
+        WHEN _fence_reason IS NULL THEN flag_reason
+        ELSE concat_ws('; ', flag_reason, 'Check-out: ' || _fence_reason)
+      END
+  WHERE id = _record.id
+  RETURNING * INTO _record;
+
+  RETURN jsonb_build_object(
+    'action', 'check_out',
+    'session_name', _qr.session_name,
+    'check_in_time', _record.check_in_time,
+    'check_out_time', _record.check_out_time,
+    'duration_hours', round(extract(epoch FROM (_record.check_out_time - _record.check_in_time)) / 3600, 1),
+    'flagged', _record.flagged,
+    'flag_reason', _record.flag_reason
+  );
+END;
+$$;
+
+-- Record enrolled students who never checked in as absent once a class has ended
+CREATE OR REPLACE FUNCTION public.mark_absent_students()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tz text := public.app_timezone();
+  _schedule record;
+  _class_end timestamp with time zone;
+  _qr_id uuid;
+  _inserted integer;
+  _total integer := 0;
+BEGIN
+  FOR _schedule IN
+    SELECT cs.*, st.user_id AS instructor_user_id
+    FROM public.class_schedules cs
+    JOIN public.staff st ON st.id = cs.instructor_id
+    WHERE cs.absences_recorded_at IS NULL
+      AND cs.status NOT IN ('cancelled', 'postponed')
+      AND ((cs.class_date + cs.end_time) AT TIME ZONE _tz) < now()
+    FOR UPDATE OF cs SKIP LOCKED
+  LOOP
+    _class_end := (_schedule.class_date + _schedule.end_time) AT TIME ZONE _tz;
+
+    -- Absences hang off the class's attendance session; create one if none was run
+    SELECT id INTO _qr_id
+    FROM public.qr_codes
+    WHERE class_schedule_id = _schedule.id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF _qr_id IS NULL THEN
+      INSERT INTO public.qr_codes (code, course_id, session_name, session_date, expires_at, created_by, qr_type, class_schedule_id)
+      VALUES (
+        gen_random_uuid()::text,
+        _schedule.course_id,
+        COALESCE(_schedule.topic, 'Scheduled class'),
+        _schedule.class_date,
+        _class_end,
+        _schedule.instructor_user_id,
+        'course',
+        _schedule.id
+      )
+      RETURNING id INTO _qr_id;
+    END IF;
+
+    INSERT INTO public.attendance_records (qr_code_id, student_id, check_in_time, status, notes)
+    SELECT _qr_id, ce.student_id, NULL, 'absent', 'Recorded automatically after the class ended'
+    FROM public.course_enrollments ce
+    WHERE ce.course_id = _schedule.course_id
+      AND ce.status = 'enrolled'
+      AND ce.enrolled_at <= _class_end
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.attendance_records ar
+        JOIN public.qr_codes q ON q.id = ar.qr_code_id
+        WHERE q.class_schedule_id = _schedule.id
+          AND ar.student_id = ce.student_id
+      )
+    ON CONFLICT (qr_code_id, student_id) DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+    _total := _total + _inserted;
+
+    UPDATE public.class_schedules SET absences_recorded_at = now() WHERE id = _schedule.id;
+  END LOOP;
+
+  RETURN _total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_absent_students() FROM PUBLIC, anon, authenticated;
+
+-- Run every 15 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'mark-absent-students',
+  '*/15 * * * *',
+  $$SELECT public.mark_absent_students()$$
+);
@@ -0,0 +1,93 @@
+-- Minimum attendance students are warned about, as a percentage of scheduled classes
+INSERT INTO public.app_settings (key, value) VALUES ('min_attendance_percentage', '75');
+
+-- Per-course attendance for the current student, counted against the classes
+-- held since they enrolled
+CREATE OR REPLACE FUNCTION public.get_my_attendance_summary()
+RETURNS TABLE (
+  course_id uuid,
+  course_code text,
+  course_name text,
+  scheduled_classes integer,
+  attended_classes integer,
+  late_classes integer,
+  absent_classes integer,
+  attendance_percentage numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH me AS (
+    SELECT id FROM public.students WHERE user_id = auth.uid()
+  ),
+  held AS (
+    SELECT ce.course_id, cs.id AS class_schedule_id
+    FROM public.course_enrollments ce
+    JOIN me ON me.id = ce.student_id
+    JOIN public.class_schedules cs ON cs.course_id = ce.course_id
+    WHERE ce.status = 'enrolled'
+      AND cs.status NOT IN ('cancelled', 'postponed')
+      AND (cs.class_date + cs.end_time) AT TIME ZONE public.app_timezone() <= now()
+      AND cs.class_date >= (ce.enrolled_at AT TIME ZONE public.app_timezone())::date
+  ),
+  -- A student who checked in to any session for a class attended it
+  marked AS (
+    SELECT DISTINCT ON (q.class_schedule_id) q.class_schedule_id, ar.status
+    FROM public.attendance_records ar
+    JOIN me ON me.id = ar.student_id
+    JOIN public.qr_codes q ON q.id = ar.qr_code_id
+    WHERE q.class_schedule_id IS NOT NULL
+    ORDER BY q.class_schedule_id, (ar.status = 'absent'), (ar.status = 'late')
+  )
+  SELECT
+    c.id,
+    c.course_code,
+    c.course_name,
+    count(h.class_schedule_id)::integer,
+    count(*) FILTER (WHERE m.status IN ('present', 'late'))::integer,
+    count(*) FILTER (WHERE m.status = 'late')::integer,
+    count(*) FILTER (WHERE m.status = 'absent' OR (h.class_schedule_id IS NOT NULL AND m.status IS NULL))::integer,
+    CASE
+      WHEN count(h.class_schedule_id) = 0 THEN NULL
+      ELSE round(100.0 * count(*) FILTER (WHERE m.status IN ('present', 'late')) / count(h.class_schedule_id), 1)
+    END
+  FROM public.course_enrollments ce
+  JOIN me ON me.id = ce.student_id
+  JOIN public.courses c ON c.id = ce.course_id
+  LEFT JOIN held h ON h.course_id = ce.course_id
+  LEFT JOIN marked m ON m.class_schedule_id = h.class_schedule_id
+  WHERE ce.status = 'enrolled'
+  GROUP BY c.id, c.course_code, c.course_name
+  ORDER BY c.course_code
+$$;
+
+-- Reject settings that would break attendance calculations
+CREATE OR REPLACE FUNCTION public.validate_app_setting()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.key = 'timezone'
+     AND NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.value #>> '{}') THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.value #>> '{}';
+  END IF;
+
+  IF NEW.key = 'min_attendance_percentage'
+     AND CASE
+       WHEN jsonb_typeof(NEW.value) = 'number' THEN (NEW.value)::numeric NOT BETWEEN 0 AND 100
+       ELSE true
+     END THEN
+    RAISE EXCEPTION 'Minimum attendance must be a number between 0 and 100';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_app_settings
+BEFORE INSERT OR UPDATE ON public.app_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_app_setting();
@@ -0,0 +1,197 @@
+-- Staff corrections to attendance, with a required reason and an audit trail
+ALTER TABLE public.attendance_records ADD CONSTRAINT check_attendance_status
+CHECK (status IN ('present', 'late', 'absent', 'excused'));
+
+CREATE TABLE public.attendance_audit_log (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attendance_record_id uuid NOT NULL,
+  qr_code_id uuid NOT NULL REFERENCES public.qr_codes(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  action text NOT NULL,
+  old_status text,
+  new_status text,
+  reason text NOT NULL,
+  changed_by uuid REFERENCES public.profiles(id),
+  changed_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT check_attendance_audit_action CHECK (action IN ('insert', 'update', 'delete'))
+);
+
+CREATE INDEX idx_attendance_audit_log_qr_code_id ON public.attendance_audit_log(qr_code_id);
+
+ALTER TABLE public.attendance_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the trigger below
+CREATE POLICY "Staff can view attendance audit log"
+ON public.attendance_audit_log
+FOR SELECT
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'staff'::text]));
+
+-- Every change staff make to a record is logged; the reason is passed in with
+-- set_config('app.attendance_change_reason', ...) for the current transaction
+CREATE OR REPLACE FUNCTION public.log_attendance_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reason text := NULLIF(trim(current_setting('app.attendance_change_reason', true)), '');
+  _record public.attendance_records%ROWTYPE;
+  _old_status text;
+BEGIN
+  -- Check-ins by students and the absence job are not manual edits
+  IF auth.uid() IS NULL OR get_current_user_role() NOT IN ('admin', 'staff') THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  IF _reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required when changing attendance';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    _record := OLD;
+  ELSE
+    _record := NEW;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    _old_status := OLD.status;
+  END IF;
+
+  INSERT INTO public.attendance_audit_log (
+    attendance_record_id, qr_code_id, student_id, action, old_status, new_status, reason, changed_by
+  )
+  VALUES (
+    _record.id,
+    _record.qr_code_id,
+    _record.student_id,
+    lower(TG_OP),
+    _old_status,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE _record.status END,
+    _reason,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_attendance_records_change
+AFTER INSERT OR UPDATE OR DELETE ON public.attendance_records
+FOR EACH ROW
+EXECUTE FUNCTION public.log_attendance_change();
+
+-- Set the status of several students in a session at once, creating records
+-- for students who have none
+CREATE OR REPLACE FUNCTION public.set_attendance_status(
+  _qr_code_id uuid,
+  _student_ids uuid[],
+  _status text,
+  _reason text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _changed integer;
+BEGIN
+  IF get_current_user_role() IS NULL OR get_current_user_role() NOT IN ('admin', 'staff') THEN
+    RAISE EXCEPTION 'Only staff can change attendance';
+  END IF;
+
+  IF _status NOT IN ('present', 'late', 'absent', 'excused') THEN
+    RAISE EXCEPTION 'Invalid attendance status: %', _status;
+  END IF;
+
+  IF NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required when changing attendance';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.qr_codes WHERE id = _qr_code_id) THEN
+    RAISE EXCEPTION 'Attendance session not found';
+  END IF;
+
+  PERFORM set_config('app.attendance_change_reason', trim(_reason), true);
+
+  -- Manual marks have no check-in time; existing check-ins are kept
+  INSERT INTO public.attendance_records (qr_code_id, student_id, check_in_time, status)
+  SELECT _qr_code_id, student_id, NULL, _status
+  FROM unnest(_student_ids) AS student_id
+  ON CONFLICT (qr_code_id, student_id) DO UPDATE
+  SET status = EXCLUDED.status
+  WHERE attendance_records.status IS DISTINCT FROM EXCLUDED.status;
+
+  GET DIAGNOSTICS _changed = ROW_COUNT;
+  RETURN _changed;
+END;
+$$;
+
+-- Excused classes no longer count against a student's attendance
+CREATE OR REPLACE FUNCTION public.get_my_attendance_summary()
+RETURNS TABLE (
+  course_id uuid,
+  course_code text,
+  course_name text,
+  scheduled_classes integer,
+  attended_classes integer,
+  late_classes integer,
+  absent_classes integer,
+  attendance_percentage numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH me AS (
+    SELECT id FROM public.students WHERE user_id = auth.uid()
+  ),
+  held AS (
+    SELECT ce.course_id, cs.id AS class_schedule_id
+    FROM public.course_enrollments ce
+    JOIN me ON me.id = ce.student_id
+    JOIN public.class_schedules cs ON cs.course_id = ce.course_id
+    WHERE ce.status = 'enrolled'
+      AND cs.status NOT IN ('cancelled', 'postponed')
+      AND (cs.class_date + cs.end_time) AT TIME ZONE public.app_timezone() <= now()
+      AND cs.class_date >= (ce.enrolled_at AT TIME ZONE public.app_timezone())::date
+  ),
+  -- A student who checked in to any session for a class attended it
+  marked AS (
+    SELECT DISTINCT ON (q.class_schedule_id) q.class_schedule_id, ar.status
+    FROM public.attendance_records ar
+    JOIN me ON me.id = ar.student_id
+    JOIN public.qr_codes q ON q.id = ar.qr_code_id
+    WHERE q.class_schedule_id IS NOT NULL
+    ORDER BY q.class_schedule_id, (ar.status = 'absent'), (ar.status = 'excused'), (ar.status = 'late')
+  )
+  SELECT
+    c.id,
+    c.course_code,
+    c.course_name,
+    count(h.class_schedule_id) FILTER (WHERE m.status IS DISTINCT FROM 'excused')::integer,
+    count(*) FILTER (WHERE m.status IN ('present', 'late'))::integer,
+    count(*) FILTER (WHERE m.status = 'late')::integer,
+    count(*) FILTER (WHERE m.status = 'absent' OR (h.class_schedule_id IS NOT NULL AND m.status IS NULL))::integer,
+    CASE
+      WHEN count(h.class_schedule_id) FILTER (WHERE m.status IS DISTINCT FROM 'excused') = 0 THEN NULL
+      ELSE round(100.0 * count(*) FILTER (WHERE m.status IN ('present', 'late'))
+                 / count(h.class_schedule_id) FILTER (WHERE m.status IS DISTINCT FROM 'excused'), 1)
+    END
+  FROM public.course_enrollments ce
+  JOIN me ON me.id = ce.student_id
+  JOIN public.courses c ON c.id = ce.course_id
+  LEFT JOIN held h ON h.course_id = ce.course_id
+  LEFT JOIN marked m ON m.class_schedule_id = h.class_schedule_id
+  WHERE ce.status = 'enrolled'
+  GROUP BY c.id, c.course_code, c.course_name
+  ORDER BY c.course_code
+$$;
@@ -0,0 +1,50 @@
+-- Exams record their creator server-side
+ALTER TABLE public.exams ALTER COLUMN created_by SET DEFAULT auth.uid();
+
+-- NOT VALID so exams saved before these checks existed don't block the migration
+ALTER TABLE public.exams ADD CONSTRAINT check_exam_total_marks
+CHECK (total_marks > 0) NOT VALID;
+
+ALTER TABLE public.exams ADD CONSTRAINT check_exam_duration_minutes
+CHECK (duration_minutes BETWEEN 1 AND 600) NOT VALID;
+
+ALTER TABLE public.exams ADD CONSTRAINT check_exam_type
+CHECK (exam_type IN ('midterm', 'final', 'quiz', 'assignment')) NOT VALID;
+
+-- Check whether a user is the assigned instructor for a course
+CREATE OR REPLACE FUNCTION public.is_course_instructor(_user_id uuid, _course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.courses c
+    JOIN public.staff s ON s.id = c.instructor_id
+    WHERE s.user_id = _user_id
+      AND c.id = _course_id
+  )
+$$;
+
+-- Admins manage every exam; staff only those for courses they teach
+DROP POLICY IF EXISTS "Staff can manage exams" ON public.exams;
+DROP POLICY IF EXISTS "Staff and admins can manage exams" ON public.exams;
+
+CREATE POLICY "Admins can manage exams"
+ON public.exams
+FOR ALL
+USING (get_current_user_role() = 'admin');
+
+CREATE POLICY "Instructors can manage exams for their courses"
+ON public.exams
+FOR ALL
+USING (
+  get_current_user_role() = 'staff'
+  AND public.is_course_instructor(auth.uid(), course_id)
+)
+WITH CHECK (
+  get_current_user_role() = 'staff'
+  AND public.is_course_instructor(auth.uid(), course_id)
+);
@@ -0,0 +1,72 @@
+-- Letter grade for a percentage score
+CREATE OR REPLACE FUNCTION public.compute_grade(_percentage numeric)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _percentage >= 70 THEN 'A'
+    WHEN _percentage >= 60 THEN 'B'
+    WHEN _percentage >= 50 THEN 'C'
+    WHEN _percentage >= 45 THEN 'D'
+    ELSE 'F'
+  END
+$$;
+
+-- Marks are validated against the exam and the grade is always derived from them
+CREATE OR REPLACE FUNCTION public.set_exam_result_grade()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _total_marks integer;
+BEGIN
+  SELECT total_marks INTO _total_marks FROM public.exams WHERE id = NEW.exam_id;
+
+  IF NEW.marks_obtained < 0 OR NEW.marks_obtained > _total_marks THEN
+    RAISE EXCEPTION 'Marks must be between 0 and %', _total_marks;
+  END IF;
+
+  NEW.grade := public.compute_grade(NEW.marks_obtained * 100.0 / _total_marks);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_exam_results_grade
+BEFORE INSERT OR UPDATE OF marks_obtained, grade ON public.exam_results
+FOR EACH ROW
+EXECUTE FUNCTION public.set_exam_result_grade();
+
+-- Admins manage every result; staff only those for courses they teach
+DROP POLICY IF EXISTS "Staff can manage results" ON public.exam_results;
+DROP POLICY IF EXISTS "Staff and admins can manage results" ON public.exam_results;
+
+CREATE POLICY "Staff can view all results"
+ON public.exam_results
+FOR SELECT
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'staff'::text]));
+
+CREATE POLICY "Admins can manage results"
+ON public.exam_results
+FOR ALL
+USING (get_current_user_role() = 'admin');
+
+CREATE POLICY "Instructors can manage results for their courses"
+ON public.exam_results
+FOR ALL
+USING (
+  get_current_user_role() = 'staff'
+  AND EXISTS (
+    SELECT 1 FROM public.exams e
+    WHERE e.id = exam_id AND public.is_course_instructor(auth.uid(), e.course_id)
+  )
+)
+WITH CHECK (
+  get_current_user_role() = 'staff'
+  AND EXISTS (
+    SELECT 1 FROM public.exams e
+    WHERE e.id = exam_id AND public.is_course_instructor(auth.uid(), e.course_id)
+  )
+);
@@ -0,0 +1,273 @@
+-- Grading scales map percentage bands to letter grades, grade points and pass/fail
+CREATE TABLE public.grading_scales (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL UNIQUE,
+  description text,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Only one scale can be the default for courses without their own
+CREATE UNIQUE INDEX idx_grading_scales_single_default ON public.grading_scales(is_default) WHERE is_default;
+
+-- Each band covers percentages from min_percentage up to the next band
+CREATE TABLE public.grading_scale_bands (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  grading_scale_id uuid NOT NULL REFERENCES public.grading_scales(id) ON DELETE CASCADE,
+  min_percentage numeric(5,2) NOT NULL,
+  letter text NOT NULL,
+  grade_points numeric(3,2) NOT NULL DEFAULT 0,
+  is_pass boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE(grading_scale_id, min_percentage),
+  UNIQUE(grading_scale_id, letter),
+  CONSTRAINT check_band_min_percentage CHECK (min_percentage BETWEEN 0 AND 100),
+  CONSTRAINT check_band_grade_points CHECK (grade_points >= 0)
+);
+
+ALTER TABLE public.grading_scales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.grading_scale_bands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view grading scales"
+ON public.grading_scales
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage grading scales"
+ON public.grading_scales
+FOR ALL
+USING (get_current_user_role() = 'admin');
+
+CREATE POLICY "Authenticated users can view grading scale bands"
+ON public.grading_scale_bands
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage grading scale bands"
+ON public.grading_scale_bands
+FOR ALL
+USING (get_current_user_role() = 'admin');
+
+CREATE TRIGGER update_grading_scales_updated_at
+BEFORE UPDATE ON public.grading_scales
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Courses use the default scale unless one is assigned
+ALTER TABLE public.courses
+ADD COLUMN grading_scale_id uuid REFERENCES public.grading_scales(id) ON DELETE SET NULL;
+
+-- Default scale matching the grades used until now
+WITH scale AS (
+  INSERT INTO public.grading_scales (name, description, is_default)
+  VALUES ('Standard', 'A 70+, B 60+, C 50+, D 45+, F below 45', true)
+  RETURNING id
+)
+INSERT INTO public.grading_scale_bands (grading_scale_id, min_percentage, letter, grade_points, is_pass)
+SELECT scale.id, band.min_percentage, band.letter, band.grade_points, band.is_pass
+FROM scale,
+  (VALUES
+    (70, 'A', 4.0, true),
+    (60, 'B', 3.0, true),
+    (50, 'C', 2.0, true),
+    (45, 'D', 1.0, true),
+    (0, 'F', 0.0, false)
+  ) AS band(min_percentage, letter, grade_points, is_pass);
+
+-- The band a percentage falls in for a course's scale
+CREATE OR REPLACE FUNCTION public.course_grade_band(_course_id uuid, _percentage numeric)
+RETURNS public.grading_scale_bands
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.*
+  FROM public.grading_scale_bands b
+  WHERE b.grading_scale_id = COALESCE(
+      (SELECT grading_scale_id FROM public.courses WHERE id = _course_id),
+      (SELECT id FROM public.grading_scales WHERE is_default)
+    )
+    AND b.min_percentage <= _percentage
+  ORDER BY b.min_percentage DESC
+  LIMIT 1
+$$;
+
+-- Grades now come from the course's scale
+CREATE OR REPLACE FUNCTION public.set_exam_result_grade()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _exam public.exams%ROWTYPE;
+BEGIN
+  SELECT * INTO _exam FROM public.exams WHERE id = NEW.exam_id;
+
+  IF NEW.marks_obtained < 0 OR NEW.marks_obtained > _exam.total_marks THEN
+    RAISE EXCEPTION 'Marks must be between 0 and %', _exam.total_marks;
+  END IF;
+
+  NEW.grade := (public.course_grade_band(_exam.course_id, NEW.marks_obtained * 100.0 / _exam.total_marks)).letter;
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.compute_grade(numeric);
+
+-- Re-grade existing results when the scale that applies to them changes
+CREATE OR REPLACE FUNCTION public.regrade_course_results(_course_ids uuid[])
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.exam_results er
+  SET marks_obtained = er.marks_obtained
+  FROM public.exams e
+  WHERE e.id = er.exam_id
+    AND e.course_id = ANY (_course_ids)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.regrade_course_results(uuid[]) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.regrade_on_course_scale_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.grading_scale_id IS DISTINCT FROM OLD.grading_scale_id THEN
+    PERFORM public.regrade_course_results(ARRAY[NEW.id]);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER regrade_courses_on_scale_change
+AFTER UPDATE OF grading_scale_id ON public.courses
+FOR EACH ROW
+EXECUTE FUNCTION public.regrade_on_course_scale_change();
+
+CREATE OR REPLACE FUNCTION public.regrade_on_scale_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Courses without a scale of their own follow the default
+  PERFORM public.regrade_course_results(ARRAY(
+    SELECT c.id
+    FROM public.courses c
+    WHERE c.grading_scale_id IN (SELECT grading_scale_id FROM changed_bands)
+       OR (c.grading_scale_id IS NULL AND EXISTS (
+         SELECT 1 FROM public.grading_scales s
+         WHERE s.is_default AND s.id IN (SELECT grading_scale_id FROM changed_bands)
+       ))
+  ));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER regrade_on_band_insert
+AFTER INSERT ON public.grading_scale_bands
+REFERENCING NEW TABLE AS changed_bands
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.regrade_on_scale_change();
+
+CREATE TRIGGER regrade_on_band_update
+AFTER UPDATE ON public.grading_scale_bands
+REFERENCING NEW TABLE AS changed_bands
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.regrade_on_scale_change();
+
+CREATE TRIGGER regrade_on_band_delete
+AFTER DELETE ON public.grading_scale_bands
+REFERENCING OLD TABLE AS changed_bands
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.regrade_on_scale_change();
+
+CREATE OR REPLACE FUNCTION public.regrade_on_default_scale_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_default AND NOT OLD.is_default THEN
+    PERFORM public.regrade_course_results(ARRAY(
+      SELECT id FROM public.courses WHERE grading_scale_id IS NULL
+    ));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER regrade_on_default_scale_change
+AFTER UPDATE OF is_default ON public.grading_scales
+FOR EACH ROW
+EXECUTE FUNCTION public.regrade_on_default_scale_change();
+
+-- Replace a scale's bands in one transaction so results are never graded against a partial scale
+CREATE OR REPLACE FUNCTION public.set_grading_scale_bands(_grading_scale_id uuid, _bands jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF get_current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can edit grading scales';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_bands) AS b(min_percentage numeric)
+    WHERE b.min_percentage = 0
+  ) THEN
+    RAISE EXCEPTION 'A grading scale needs a band starting at 0%%';
+  END IF;
+
+  DELETE FROM public.grading_scale_bands WHERE grading_scale_id = _grading_scale_id;
+
+  INSERT INTO public.grading_scale_bands (grading_scale_id, min_percentage, letter, grade_points, is_pass)
+  SELECT _grading_scale_id, b.min_percentage, trim(b.letter), b.grade_points, b.is_pass
+  FROM jsonb_to_recordset(_bands) AS b(min_percentage numeric, letter text, grade_points numeric, is_pass boolean);
+END;
+$$;
+
+-- Certificate grades must be a letter from the course's scale
+CREATE OR REPLACE FUNCTION public.validate_certificate_grade()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.grade IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.grading_scale_bands b
+    WHERE b.grading_scale_id = COALESCE(
+        (SELECT grading_scale_id FROM public.courses WHERE id = NEW.course_id),
+        (SELECT id FROM public.grading_scales WHERE is_default)
+      )
+      AND b.letter = NEW.grade
+  ) THEN
+    RAISE EXCEPTION 'Grade % is not part of the grading scale for this course', NEW.grade;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_certificates_grade
+BEFORE INSERT OR UPDATE OF grade, course_id ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_certificate_grade();
@@ -0,0 +1,178 @@
+-- How much each type of assessment counts towards a course's final grade
+CREATE TABLE public.course_assessment_weights (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id uuid NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  exam_type text NOT NULL,
+  weight numeric(5,2) NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE(course_id, exam_type),
+  CONSTRAINT check_assessment_exam_type CHECK (exam_type IN ('midterm', 'final', 'quiz', 'assignment')),
+  CONSTRAINT check_assessment_weight CHECK (weight > 0 AND weight <= 100)
+);
+
+ALTER TABLE public.course_assessment_weights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view assessment weights"
+ON public.course_assessment_weights
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage assessment weights"
+ON public.course_assessment_weights
+FOR ALL
+USING (get_current_user_role() = 'admin');
+
+CREATE POLICY "Instructors can manage assessment weights for their courses"
+ON public.course_assessment_weights
+FOR ALL
+USING (
+  get_current_user_role() = 'staff'
+  AND public.is_course_instructor(auth.uid(), course_id)
+)
+WITH CHECK (
+  get_current_user_role() = 'staff'
+  AND public.is_course_instructor(auth.uid(), course_id)
+);
+
+CREATE TRIGGER update_course_assessment_weights_updated_at
+BEFORE UPDATE ON public.course_assessment_weights
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Replace a course's weights in one go; they must add up to 100 or be cleared entirely
+CREATE OR REPLACE FUNCTION public.set_course_assessment_weights(_course_id uuid, _weights jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _total numeric;
+BEGIN
+  IF NOT (
+    get_current_user_role() = 'admin'
+    OR (get_current_user_role() = 'staff' AND public.is_course_instructor(auth.uid(), _course_id))
+  ) THEN
+    RAISE EXCEPTION 'You can only set weights for courses you teach';
+  END IF;
+
+  SELECT COALESCE(sum(w.weight), 0) INTO _total
+  FROM jsonb_to_recordset(_weights) AS w(exam_type text, weight numeric);
+
+  IF _total <> 0 AND _total <> 100 THEN
+    RAISE EXCEPTION 'Assessment weights must add up to 100%%; they currently add up to %', _total;
+  END IF;
+
+  DELETE FROM public.course_assessment_weights WHERE course_id = _course_id;
+
+  INSERT INTO public.course_assessment_weights (course_id, exam_type, weight)
+  SELECT _course_id, w.exam_type, w.weight
+  FROM jsonb_to_recordset(_weights) AS w(exam_type text, weight numeric);
+END;
+$$;
+
+-- Final grade per course for a student. Each exam type is averaged, then the
+-- types are combined by the course's weights (equally when none are set).
+-- Weights of types the student has no results for yet are left out, so the
+-- grade reflects work marked so far until graded_exams reaches total_exams.
+CREATE OR REPLACE FUNCTION public.get_student_course_grades(_student_id uuid)
+RETURNS TABLE (
+  course_id uuid,
+  course_code text,
+  course_name text,
+  credits integer,
+  semester integer,
+  final_percentage numeric,
+  letter text,
+  grade_points numeric,
+  is_pass boolean,
+  graded_exams integer,
+  total_exams integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH allowed AS (
+    SELECT 1
+    WHERE get_current_user_role() = ANY (ARRAY['admin'::text, 'staff'::text])
+       OR EXISTS (SELECT 1 FROM public.students WHERE id = _student_id AND user_id = auth.uid())
+  ),
+  type_scores AS (
+    SELECT e.course_id, e.exam_type, avg(er.marks_obtained * 100.0 / e.total_marks) AS percentage
+    FROM public.exam_results er
+    JOIN public.exams e ON e.id = er.exam_id
+    WHERE er.student_id = _student_id
+      AND EXISTS (SELECT 1 FROM allowed)
+    GROUP BY e.course_id, e.exam_type
+  ),
+  weighted AS (
+    SELECT ts.course_id,
+      sum(ts.percentage * COALESCE(w.weight, 1)) / sum(COALESCE(w.weight, 1)) AS percentage
+    FROM type_scores ts
+    LEFT JOIN public.course_assessment_weights w
+      ON w.course_id = ts.course_id AND w.exam_type = ts.exam_type
+    -- Once a course has weights, unweighted exam types do not count
+    WHERE w.id IS NOT NULL
+       OR NOT EXISTS (SELECT 1 FROM public.course_assessment_weights cw WHERE cw.course_id = ts.course_id)
+    GROUP BY ts.course_id
+  )
+  SELECT
+    c.id,
+    c.course_code,
+    c.course_name,
+    c.credits,
+    c.semester,
+    round(wt.percentage, 2),
+    band.letter,
+    band.grade_points,
+    band.is_pass,
+    counts.graded_exams,
+    counts.total_exams
+  FROM weighted wt
+  JOIN public.courses c ON c.id = wt.course_id
+  LEFT JOIN LATERAL public.course_grade_band(c.id, round(wt.percentage, 2)) band ON true
+  CROSS JOIN LATERAL (
+    SELECT count(*)::integer AS total_exams, count(er.id)::integer AS graded_exams
+    FROM public.exams e
+    LEFT JOIN public.exam_results er ON er.exam_id = e.id AND er.student_id = _student_id
+    WHERE e.course_id = c.id
+  ) counts
+  ORDER BY c.semester, c.course_code
+$$;
+
+-- Credit-weighted GPA per semester with a running cumulative GPA.
+-- Only courses with every exam marked count.
+CREATE OR REPLACE FUNCTION public.get_student_gpa(_student_id uuid)
+RETURNS TABLE (
+  semester integer,
+  credits integer,
+  gpa numeric,
+  cumulative_credits integer,
+  cumulative_gpa numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH per_semester AS (
+    SELECT g.semester, sum(g.credits) AS credits, sum(g.grade_points * g.credits) AS points
+    FROM public.get_student_course_grades(_student_id) g
+    WHERE g.graded_exams = g.total_exams
+      AND g.grade_points IS NOT NULL
+    GROUP BY g.semester
+  )
+  SELECT
+    ps.semester,
+    ps.credits::integer,
+    round(ps.points / NULLIF(ps.credits, 0), 2),
+    (sum(ps.credits) OVER running)::integer,
+    round(sum(ps.points) OVER running / NULLIF(sum(ps.credits) OVER running, 0), 2)
+  FROM per_semester ps
+  WINDOW running AS (ORDER BY ps.semester)
+  ORDER BY ps.semester
+$$;
@@ -0,0 +1,95 @@
+-- Issued transcripts keep a snapshot of the grades they were printed with,
+-- so the verification QR shows exactly what was on the document
+CREATE TABLE public.transcripts (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id uuid NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  verification_code text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  student_name text NOT NULL,
+  student_number text NOT NULL,
+  courses jsonb NOT NULL DEFAULT '[]'::jsonb,
+  semesters jsonb NOT NULL DEFAULT '[]'::jsonb,
+  cumulative_gpa numeric(3,2),
+  total_credits integer NOT NULL DEFAULT 0,
+  generated_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  generated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_transcripts_student_id ON public.transcripts(student_id);
+
+ALTER TABLE public.transcripts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their own transcripts"
+ON public.transcripts
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.students s
+    WHERE s.id = student_id AND s.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Staff can view transcripts"
+ON public.transcripts
+FOR SELECT
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'staff'::text]));
+
+-- Snapshot a student's current grades into a new transcript
+CREATE OR REPLACE FUNCTION public.issue_transcript(_student_id uuid)
+RETURNS public.transcripts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transcript public.transcripts%ROWTYPE;
+BEGIN
+  IF NOT (
+    get_current_user_role() = ANY (ARRAY['admin'::text, 'staff'::text])
+    OR EXISTS (SELECT 1 FROM public.students WHERE id = _student_id AND user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to issue a transcript for this student';
+  END IF;
+
+  INSERT INTO public.transcripts (student_id, student_name, student_number, courses, semesters, cumulative_gpa, total_credits)
+  SELECT
+    s.id,
+    COALESCE(p.full_name, ''),
+    s.student_id,
+    COALESCE((SELECT jsonb_agg(to_jsonb(g)) FROM public.get_student_course_grades(_student_id) g), '[]'::jsonb),
+    COALESCE((SELECT jsonb_agg(to_jsonb(gpa)) FROM public.get_student_gpa(_student_id) gpa), '[]'::jsonb),
+    (SELECT gpa.cumulative_gpa FROM public.get_student_gpa(_student_id) gpa ORDER BY gpa.semester DESC LIMIT 1),
+    COALESCE((SELECT gpa.cumulative_credits FROM public.get_student_gpa(_student_id) gpa ORDER BY gpa.semester DESC LIMIT 1), 0)
+  FROM public.students s
+  LEFT JOIN public.profiles p ON p.id = s.user_id
+  WHERE s.id = _student_id
+  RETURNING * INTO _transcript;
+
+  IF _transcript.id IS NULL THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  RETURN _transcript;
+END;
+$$;
+
+-- Public lookup for the transcript verification page
+CREATE OR REPLACE FUNCTION public.verify_transcript(_verification_code text)
+RETURNS TABLE (
+  student_name text,
+  student_number text,
+  courses jsonb,
+  cumulative_gpa numeric,
+  total_credits integer,
+  generated_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.student_name, t.student_number, t.courses, t.cumulative_gpa, t.total_credits, t.generated_at
+  FROM public.transcripts t
+  WHERE t.verification_code = _verification_code
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_transcript(text) TO anon, authenticated;
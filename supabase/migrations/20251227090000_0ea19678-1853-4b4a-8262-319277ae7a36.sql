@@ -0,0 +1,212 @@
+-- Exam results move from draft to reviewed to published, and students only see published results
+ALTER TABLE public.exams
+ADD COLUMN results_status text NOT NULL DEFAULT 'draft',
+ADD COLUMN results_reviewed_by uuid REFERENCES auth.users(id),
+ADD COLUMN results_reviewed_at timestamp with time zone,
+ADD COLUMN results_published_by uuid REFERENCES auth.users(id),
+ADD COLUMN results_published_at timestamp with time zone;
+
+ALTER TABLE public.exams ADD CONSTRAINT check_exam_results_status
+CHECK (results_status IN ('draft', 'reviewed', 'published'));
+
+-- Students could already see existing results, so keep them visible
+UPDATE public.exams e
+SET results_status = 'published', results_published_at = now()
+WHERE EXISTS (SELECT 1 FROM public.exam_results er WHERE er.exam_id = e.id);
+
+-- Instructors mark results reviewed; only admins publish or take published results back
+CREATE OR REPLACE FUNCTION public.validate_exam_results_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _role text := get_current_user_role();
+BEGIN
+  IF NEW.results_status = OLD.results_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.results_status = 'reviewed' AND OLD.results_status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft results can be marked as reviewed';
+  END IF;
+
+  IF NEW.results_status = 'published' THEN
+    IF OLD.results_status <> 'reviewed' THEN
+      RAISE EXCEPTION 'Results must be reviewed before they are published';
+    END IF;
+    IF _role IS DISTINCT FROM 'admin' THEN
+      RAISE EXCEPTION 'Only admins can publish results';
+    END IF;
+  END IF;
+
+  IF OLD.results_status = 'published' AND _role IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can unpublish results';
+  END IF;
+
+  IF NEW.results_status = 'reviewed' THEN
+    NEW.results_reviewed_by := auth.uid();
+    NEW.results_reviewed_at := now();
+  ELSIF NEW.results_status = 'published' THEN
+    NEW.results_published_by := auth.uid();
+    NEW.results_published_at := now();
+  ELSE
+    NEW.results_reviewed_by := NULL;
+    NEW.results_reviewed_at := NULL;
+    NEW.results_published_by := NULL;
+    NEW.results_published_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_exams_results_status
+BEFORE UPDATE OF results_status ON public.exams
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_exam_results_status();
+
+-- Tell each student with a result when the results become visible
+CREATE OR REPLACE FUNCTION public.notify_results_published()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.results_status = 'published' AND OLD.results_status <> 'published' THEN
+    INSERT INTO public.notifications (user_id, title, message, type)
+    SELECT
+      s.user_id,
+      'Results Published',
+      format('Your results for %s (%s) are now available.', NEW.exam_name, c.course_code),
+      'success'
+    FROM public.exam_results er
+    JOIN public.students s ON s.id = er.student_id
+    JOIN public.courses c ON c.id = NEW.course_id
+    WHERE er.exam_id = NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_exams_results_published
+AFTER UPDATE OF results_status ON public.exams
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_results_published();
+
+-- Marks are frozen once results leave draft. Re-grading keeps the marks
+-- unchanged, and results removed along with their exam are let through.
+CREATE OR REPLACE FUNCTION public.prevent_locked_result_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _status text;
+BEGIN
+  SELECT results_status INTO _status
+  FROM public.exams
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.exam_id ELSE NEW.exam_id END;
+
+  IF _status IS NULL OR _status = 'draft' THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.marks_obtained IS NOT DISTINCT FROM OLD.marks_obtained
+     AND NEW.remarks IS NOT DISTINCT FROM OLD.remarks
+     AND NEW.student_id = OLD.student_id
+     AND NEW.exam_id = OLD.exam_id THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Results for this exam are % and can no longer be changed; move them back to draft first', _status;
+END;
+$$;
+
+CREATE TRIGGER prevent_locked_exam_result_changes
+BEFORE INSERT OR UPDATE OR DELETE ON public.exam_results
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_locked_result_changes();
+
+DROP POLICY IF EXISTS "Students can view their own results" ON public.exam_results;
+
+CREATE POLICY "Students can view their own published results"
+ON public.exam_results
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.students WHERE id = student_id AND user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.exams WHERE id = exam_id AND results_status = 'published')
+);
+
+-- Final grades, GPA and transcripts only count published results
+CREATE OR REPLACE FUNCTION public.get_student_course_grades(_student_id uuid)
+RETURNS TABLE (
+  course_id uuid,
+  course_code text,
+  course_name text,
+  credits integer,
+  semester integer,
+  final_percentage numeric,
+  letter text,
+  grade_points numeric,
+  is_pass boolean,
+  graded_exams integer,
+  total_exams integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH allowed AS (
+    SELECT 1
+    WHERE get_current_user_role() = ANY (ARRAY['admin'::text, 'staff'::text])
+       OR EXISTS (SELECT 1 FROM public.students WHERE id = _student_id AND user_id = auth.uid())
+  ),
+  type_scores AS (
+    SELECT e.course_id, e.exam_type, avg(er.marks_obtained * 100.0 / e.total_marks) AS percentage
+    FROM public.exam_results er
+    JOIN public.exams e ON e.id = er.exam_id
+    WHERE er.student_id = _student_id
+      AND e.results_status = 'published'
+      AND EXISTS (SELECT 1 FROM allowed)
+    GROUP BY e.course_id, e.exam_type
+  ),
+  weighted AS (
+    SELECT ts.course_id,
+      sum(ts.percentage * COALESCE(w.weight, 1)) / sum(COALESCE(w.weight, 1)) AS percentage
+    FROM type_scores ts
+    LEFT JOIN public.course_assessment_weights w
+      ON w.course_id = ts.course_id AND w.exam_type = ts.exam_type
+    -- Once a course has weights, unweighted exam types do not count
+    WHERE w.id IS NOT NULL
+       OR NOT EXISTS (SELECT 1 FROM public.course_assessment_weights cw WHERE cw.course_id = ts.course_id)
+    GROUP BY ts.course_id
+  )
+  SELECT
+    c.id,
+    c.course_code,
+    c.course_name,
+    c.credits,
+    c.semester,
+    round(wt.percentage, 2),
+    band.letter,
+    band.grade_points,
+    band.is_pass,
+    counts.graded_exams,
+    counts.total_exams
+  FROM weighted wt
+  JOIN public.courses c ON c.id = wt.course_id
+  LEFT JOIN LATERAL public.course_grade_band(c.id, round(wt.percentage, 2)) band ON true
+  CROSS JOIN LATERAL (
+    SELECT count(*)::integer AS total_exams, count(er.id)::integer AS graded_exams
+    FROM public.exams e
+    LEFT JOIN public.exam_results er
+      ON er.exam_id = e.id AND er.student_id = _student_id AND e.results_status = 'published'
+    WHERE e.course_id = c.id
+  ) counts
+  ORDER BY c.semester, c.course_code
+$$;
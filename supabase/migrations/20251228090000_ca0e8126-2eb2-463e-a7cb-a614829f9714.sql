@@ -0,0 +1,81 @@
+-- Admin-managed certificate designs. Layout positions are percentages of the page.
+CREATE TABLE public.certificate_templates (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL UNIQUE,
+  title text NOT NULL DEFAULT 'Certificate of Completion',
+  body_text text NOT NULL DEFAULT 'has successfully completed {{course_name}} ({{course_code}})',
+  orientation text NOT NULL DEFAULT 'landscape',
+  accent_color text NOT NULL DEFAULT '#0066cc',
+  logo_url text,
+  background_url text,
+  signature_url text,
+  signatory_name text,
+  signatory_title text,
+  layout jsonb NOT NULL DEFAULT '{
+    "logo": {"x": 50, "y": 12, "size": 25},
+    "title": {"x": 50, "y": 26, "size": 32},
+    "student_name": {"x": 50, "y": 42, "size": 28},
+    "body": {"x": 50, "y": 52, "size": 14},
+    "grade": {"x": 50, "y": 60, "size": 14},
+    "issue_date": {"x": 20, "y": 82, "size": 11},
+    "certificate_number": {"x": 20, "y": 87, "size": 10},
+    "signature": {"x": 50, "y": 80, "size": 45},
+    "qr_code": {"x": 82, "y": 80, "size": 30}
+  }'::jsonb,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT check_certificate_template_orientation CHECK (orientation IN ('landscape', 'portrait')),
+  CONSTRAINT check_certificate_template_accent_color CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$')
+);
+
+CREATE UNIQUE INDEX idx_certificate_templates_single_default ON public.certificate_templates(is_default) WHERE is_default;
+
+ALTER TABLE public.certificate_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view certificate templates"
+ON public.certificate_templates
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage certificate templates"
+ON public.certificate_templates
+FOR ALL
+USING (get_current_user_role() = 'admin');
+
+CREATE TRIGGER update_certificate_templates_updated_at
+BEFORE UPDATE ON public.certificate_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.certificate_templates (name, is_default)
+VALUES ('Standard', true);
+
+-- Certificates remember the design they were issued with
+ALTER TABLE public.certificates
+ADD COLUMN template_id uuid REFERENCES public.certificate_templates(id) ON DELETE SET NULL;
+
+-- Logos, signatures and backgrounds used by templates
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('certificate-assets', 'certificate-assets', true);
+
+CREATE POLICY "Certificate assets are publicly accessible"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'certificate-assets');
+
+CREATE POLICY "Admins can upload certificate assets"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'certificate-assets' AND get_current_user_role() = 'admin');
+
+CREATE POLICY "Admins can update certificate assets"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id = 'certificate-assets' AND get_current_user_role() = 'admin');
+
+CREATE POLICY "Admins can delete certificate assets"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'certificate-assets' AND get_current_user_role() = 'admin');
@@ -0,0 +1,141 @@
+-- Certificate numbers are generated here from 64 random bits, so they cannot be
+-- guessed, and each certificate carries an HMAC over its contents so a record
+-- changed outside the issuing flow no longer verifies.
+
+-- The signing key is only readable by SECURITY DEFINER functions
+CREATE TABLE public.certificate_signing_key (
+  id boolean NOT NULL DEFAULT true PRIMARY KEY,
+  secret text NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT check_certificate_signing_key_singleton CHECK (id)
+);
+
+ALTER TABLE public.certificate_signing_key ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.certificate_signing_key FROM anon, authenticated;
+
+INSERT INTO public.certificate_signing_key DEFAULT VALUES;
+
+ALTER TABLE public.certificates
+ADD COLUMN signature text;
+
+CREATE OR REPLACE FUNCTION public.generate_certificate_number()
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  _number text;
+BEGIN
+  LOOP
+    _number := format('CERT-%s-%s', to_char(now(), 'YYYY'), upper(encode(extensions.gen_random_bytes(8), 'hex')));
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.certificates WHERE certificate_number = _number);
+  END LOOP;
+  RETURN _number;
+END;
+$$;
+
+-- Signs the fields printed on the certificate plus who issued it
+CREATE OR REPLACE FUNCTION public.certificate_signature(_certificate public.certificates)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT encode(extensions.hmac(
+    concat_ws('|',
+      _certificate.certificate_number,
+      _certificate.student_id,
+      _certificate.course_id,
+      COALESCE(_certificate.grade, ''),
+      _certificate.issue_date,
+      _certificate.issued_by
+    ),
+    k.secret,
+    'sha256'
+  ), 'hex')
+  FROM public.certificate_signing_key k
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.certificate_signature(public.certificates) FROM PUBLIC, anon, authenticated;
+
+UPDATE public.certificates c
+SET signature = public.certificate_signature(c);
+
+ALTER TABLE public.certificates ALTER COLUMN signature SET NOT NULL;
+
+-- New certificates always get a server-generated number and signature; the
+-- signed fields of an issued certificate can no longer be edited.
+CREATE OR REPLACE FUNCTION public.sign_certificate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.certificate_number := public.generate_certificate_number();
+    NEW.signature := public.certificate_signature(NEW);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.certificate_number IS DISTINCT FROM OLD.certificate_number
+     OR NEW.student_id IS DISTINCT FROM OLD.student_id
+     OR NEW.course_id IS DISTINCT FROM OLD.course_id
+     OR NEW.grade IS DISTINCT FROM OLD.grade
+     OR NEW.issue_date IS DISTINCT FROM OLD.issue_date
+     OR NEW.issued_by IS DISTINCT FROM OLD.issued_by THEN
+    RAISE EXCEPTION 'Issued certificates cannot be changed';
+  END IF;
+
+  NEW.signature := OLD.signature;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sign_certificates
+BEFORE INSERT OR UPDATE ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.sign_certificate();
+
+-- Verification goes through verify_certificate instead of reading the table
+DROP POLICY IF EXISTS "Anyone can verify certificates" ON public.certificates;
+
+CREATE OR REPLACE FUNCTION public.verify_certificate(_certificate_number text)
+RETURNS TABLE (
+  certificate_number text,
+  issue_date date,
+  grade text,
+  student_name text,
+  student_number text,
+  course_name text,
+  course_code text,
+  issued_by_name text,
+  signature text,
+  signature_valid boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.certificate_number,
+    c.issue_date,
+    c.grade,
+    sp.full_name,
+    s.student_id,
+    co.course_name,
+    co.course_code,
+    ip.full_name,
+    c.signature,
+    c.signature = public.certificate_signature(c)
+  FROM public.certificates c
+  JOIN public.students s ON s.id = c.student_id
+  JOIN public.courses co ON co.id = c.course_id
+  LEFT JOIN public.profiles sp ON sp.id = s.user_id
+  LEFT JOIN public.profiles ip ON ip.id = c.issued_by
+  WHERE c.certificate_number = upper(btrim(_certificate_number))
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_certificate(text) TO anon, authenticated;
@@ -0,0 +1,142 @@
+-- Certificates can be revoked, or reissued under a new number that supersedes the old one
+ALTER TABLE public.certificates
+ADD COLUMN status text NOT NULL DEFAULT 'active',
+ADD COLUMN revoked_at timestamp with time zone,
+ADD COLUMN revoked_by uuid REFERENCES auth.users(id),
+ADD COLUMN revocation_reason text,
+ADD COLUMN supersedes_id uuid UNIQUE REFERENCES public.certificates(id) ON DELETE SET NULL;
+
+ALTER TABLE public.certificates ADD CONSTRAINT check_certificate_status
+CHECK (status IN ('active', 'revoked', 'superseded'));
+
+-- Revocation is final and needs a reason; a certificate is only superseded by
+-- reissuing it, which links the replacement through supersedes_id.
+CREATE OR REPLACE FUNCTION public.validate_certificate_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'active' THEN
+    RAISE EXCEPTION 'This certificate has already been %', OLD.status;
+  END IF;
+
+  IF btrim(COALESCE(NEW.revocation_reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required to revoke or reissue a certificate';
+  END IF;
+
+  IF NEW.status = 'superseded'
+     AND NOT EXISTS (SELECT 1 FROM public.certificates WHERE supersedes_id = NEW.id) THEN
+    RAISE EXCEPTION 'Certificates are superseded by reissuing them';
+  END IF;
+
+  NEW.revoked_at := now();
+  NEW.revoked_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_certificates_status
+BEFORE UPDATE OF status ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_certificate_status();
+
+-- Issues a replacement for an active certificate, optionally with a corrected
+-- grade, and marks the original as superseded
+CREATE OR REPLACE FUNCTION public.reissue_certificate(_certificate_id uuid, _reason text, _grade text DEFAULT NULL)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.certificates%ROWTYPE;
+  _replacement public.certificates%ROWTYPE;
+BEGIN
+  IF COALESCE(public.get_current_user_role(), '') NOT IN ('admin', 'staff') THEN
+    RAISE EXCEPTION 'Only staff can reissue certificates';
+  END IF;
+
+  SELECT * INTO _original FROM public.certificates WHERE id = _certificate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+
+  IF _original.status <> 'active' THEN
+    RAISE EXCEPTION 'This certificate has already been %', _original.status;
+  END IF;
+
+  INSERT INTO public.certificates (
+    student_id, course_id, grade, remarks, issued_by, barcode_data, template_id, supersedes_id
+  )
+  VALUES (
+    _original.student_id, _original.course_id, _grade, _original.remarks, auth.uid(), '',
+    _original.template_id, _original.id
+  )
+  RETURNING * INTO _replacement;
+
+  UPDATE public.certificates
+  SET status = 'superseded', revocation_reason = _reason
+  WHERE id = _original.id;
+
+  RETURN _replacement;
+END;
+$$;
+
+-- Verification reports revoked and superseded certificates along with the replacement
+DROP FUNCTION IF EXISTS public.verify_certificate(text);
+
+CREATE OR REPLACE FUNCTION public.verify_certificate(_certificate_number text)
+RETURNS TABLE (
+  certificate_number text,
+  issue_date date,
+  grade text,
+  student_name text,
+  student_number text,
+  course_name text,
+  course_code text,
+  issued_by_name text,
+  signature text,
+  signature_valid boolean,
+  status text,
+  revoked_at timestamp with time zone,
+  revocation_reason text,
+  superseded_by_number text,
+  supersedes_number text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.certificate_number,
+    c.issue_date,
+    c.grade,
+    sp.full_name,
+    s.student_id,
+    co.course_name,
+    co.course_code,
+    ip.full_name,
+    c.signature,
+    c.signature = public.certificate_signature(c),
+    c.status,
+    c.revoked_at,
+    c.revocation_reason,
+    replacement.certificate_number,
+    original.certificate_number
+  FROM public.certificates c
+  JOIN public.students s ON s.id = c.student_id
+  JOIN public.courses co ON co.id = c.course_id
+  LEFT JOIN public.profiles sp ON sp.id = s.user_id
+  LEFT JOIN public.profiles ip ON ip.id = c.issued_by
+  LEFT JOIN public.certificates replacement ON replacement.supersedes_id = c.id
+  LEFT JOIN public.certificates original ON original.id = c.supersedes_id
+  WHERE c.certificate_number = upper(btrim(_certificate_number))
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_certificate(text) TO anon, authenticated;
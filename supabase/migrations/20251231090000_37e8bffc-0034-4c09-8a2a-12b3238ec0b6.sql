@@ -0,0 +1,95 @@
+-- Completion status of every enrolled student in a course, for issuing
+-- certificates to a whole cohort. A student is eligible once every exam has a
+-- published result, the final grade is a pass and attendance meets the minimum
+-- (the min_attendance_percentage setting unless another threshold is given).
+CREATE OR REPLACE FUNCTION public.get_course_completion(_course_id uuid, _min_attendance numeric DEFAULT NULL)
+RETURNS TABLE (
+  student_id uuid,
+  student_number text,
+  student_name text,
+  final_percentage numeric,
+  letter text,
+  is_pass boolean,
+  graded_exams integer,
+  total_exams integer,
+  attendance_percentage numeric,
+  has_certificate boolean,
+  eligible boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH allowed AS (
+    SELECT 1
+    WHERE get_current_user_role() = ANY (ARRAY['admin'::text, 'staff'::text])
+  ),
+  threshold AS (
+    SELECT COALESCE(
+      _min_attendance,
+      (SELECT (value #>> '{}')::numeric FROM public.app_settings WHERE key = 'min_attendance_percentage'),
+      0
+    ) AS percentage
+  ),
+  cohort AS (
+    SELECT ce.student_id, ce.enrolled_at
+    FROM public.course_enrollments ce
+    WHERE ce.course_id = _course_id
+      AND ce.status = 'enrolled'
+      AND EXISTS (SELECT 1 FROM allowed)
+  ),
+  held AS (
+    SELECT co.student_id, cs.id AS class_schedule_id
+    FROM cohort co
+    JOIN public.class_schedules cs ON cs.course_id = _course_id
+    WHERE cs.status NOT IN ('cancelled', 'postponed')
+      AND (cs.class_date + cs.end_time) AT TIME ZONE public.app_timezone() <= now()
+      AND cs.class_date >= (co.enrolled_at AT TIME ZONE public.app_timezone())::date
+  ),
+  -- A student who checked in to any session for a class attended it
+  marked AS (
+    SELECT DISTINCT ON (ar.student_id, q.class_schedule_id) ar.student_id, q.class_schedule_id, ar.status
+    FROM public.attendance_records ar
+    JOIN cohort co ON co.student_id = ar.student_id
+    JOIN public.qr_codes q ON q.id = ar.qr_code_id
+    WHERE q.class_schedule_id IS NOT NULL
+    ORDER BY ar.student_id, q.class_schedule_id, (ar.status = 'absent'), (ar.status = 'excused'), (ar.status = 'late')
+  ),
+  attendance AS (
+    SELECT
+      h.student_id,
+      CASE
+        WHEN count(*) FILTER (WHERE m.status IS DISTINCT FROM 'excused') = 0 THEN NULL
+        ELSE round(100.0 * count(*) FILTER (WHERE m.status IN ('present', 'late'))
+                   / count(*) FILTER (WHERE m.status IS DISTINCT FROM 'excused'), 1)
+      END AS percentage
+    FROM held h
+    LEFT JOIN marked m ON m.student_id = h.student_id AND m.class_schedule_id = h.class_schedule_id
+    GROUP BY h.student_id
+  )
+  SELECT
+    s.id,
+    s.student_id,
+    p.full_name,
+    g.final_percentage,
+    g.letter,
+    COALESCE(g.is_pass, false),
+    COALESCE(g.graded_exams, 0),
+    COALESCE(g.total_exams, 0),
+    a.percentage,
+    EXISTS (
+      SELECT 1 FROM public.certificates c
+      WHERE c.student_id = s.id AND c.course_id = _course_id AND c.status = 'active'
+    ),
+    COALESCE(g.is_pass, false)
+      AND g.graded_exams = g.total_exams
+      AND (a.percentage IS NULL OR a.percentage >= t.percentage)
+  FROM cohort co
+  JOIN public.students s ON s.id = co.student_id
+  LEFT JOIN public.profiles p ON p.id = s.user_id
+  LEFT JOIN attendance a ON a.student_id = co.student_id
+  LEFT JOIN LATERAL public.get_student_course_grades(s.id) g ON g.course_id = _course_id
+  CROSS JOIN threshold t
+  ORDER BY s.student_id
+$$;
@@ -0,0 +1,26 @@
+-- Every certificate verification attempt made through the verify edge function
+CREATE TABLE public.certificate_verifications (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  certificate_number text NOT NULL,
+  result text NOT NULL,
+  ip_address text,
+  user_agent text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT check_certificate_verification_result
+    CHECK (result IN ('valid', 'revoked', 'superseded', 'invalid_signature', 'not_found', 'rate_limited'))
+);
+
+-- Rate limiting counts recent attempts per address
+CREATE INDEX idx_certificate_verifications_ip_created ON public.certificate_verifications(ip_address, created_at);
+CREATE INDEX idx_certificate_verifications_created ON public.certificate_verifications(created_at DESC);
+
+ALTER TABLE public.certificate_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view certificate verifications"
+ON public.certificate_verifications
+FOR SELECT
+USING (get_current_user_role() = 'admin');
+
+-- Verification is only served by the edge function, which logs and rate limits it
+REVOKE EXECUTE ON FUNCTION public.verify_certificate(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_certificate(text) TO service_role;
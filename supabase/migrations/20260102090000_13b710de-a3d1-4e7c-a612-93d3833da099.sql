@@ -0,0 +1,37 @@
+-- barcode_data holds the verification path encoded in the certificate's QR code
+-- instead of a base64 PNG. The path is relative because the site origin is only
+-- known to the client, which renders the QR image when it is needed.
+UPDATE public.certificates
+SET barcode_data = '/verify-certificate?cert=' || certificate_number;
+
+CREATE OR REPLACE FUNCTION public.sign_certificate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.certificate_number := public.generate_certificate_number();
+    NEW.barcode_data := '/verify-certificate?cert=' || NEW.certificate_number;
+    NEW.signature := public.certificate_signature(NEW);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.certificate_number IS DISTINCT FROM OLD.certificate_number
+     OR NEW.student_id IS DISTINCT FROM OLD.student_id
+     OR NEW.course_id IS DISTINCT FROM OLD.course_id
+     OR NEW.grade IS DISTINCT FROM OLD.grade
+     OR NEW.issue_date IS DISTINCT FROM OLD.issue_date
+     OR NEW.issued_by IS DISTINCT FROM OLD.issued_by THEN
+    RAISE EXCEPTION 'Issued certificates cannot be changed';
+  END IF;
+
+  NEW.barcode_data := OLD.barcode_data;
+  NEW.signature := OLD.signature;
+  RETURN NEW;
+END;
+$$;
+
+-- Filled in by sign_certificate, so inserts no longer send it
+ALTER TABLE public.certificates ALTER COLUMN barcode_data SET DEFAULT '';
@@ -0,0 +1,123 @@
+-- Classes must end after they start. NOT VALID so existing rows are left alone.
+ALTER TABLE public.class_schedules ADD CONSTRAINT check_class_times
+CHECK (end_time > start_time) NOT VALID;
+
+-- Classes that would clash with a booking: the same room or the same instructor
+-- at overlapping times on the same day. Cancelled and postponed classes free
+-- their slot, and rooms are compared ignoring case and surrounding spaces.
+CREATE OR REPLACE FUNCTION public.find_class_schedule_conflicts(
+  _class_date date,
+  _start_time time,
+  _end_time time,
+  _room_number text DEFAULT NULL,
+  _instructor_id uuid DEFAULT NULL,
+  _exclude_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  conflict text,
+  course_code text,
+  course_name text,
+  class_date date,
+  start_time time,
+  end_time time,
+  room_number text,
+  instructor_name text,
+  topic text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    cs.id,
+    CASE
+      WHEN same_room AND same_instructor THEN 'room_and_instructor'
+      WHEN same_room THEN 'room'
+      ELSE 'instructor'
+    END AS conflict,
+    c.course_code,
+    c.course_name,
+    cs.class_date,
+    cs.start_time,
+    cs.end_time,
+    cs.room_number,
+    p.full_name AS instructor_name,
+    cs.topic
+  FROM public.class_schedules cs
+  JOIN public.courses c ON c.id = cs.course_id
+  LEFT JOIN public.staff s ON s.id = cs.instructor_id
+  LEFT JOIN public.profiles p ON p.id = s.user_id
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(
+        lower(btrim(cs.room_number)) = lower(NULLIF(btrim(_room_number), '')),
+        false
+      ) AS same_room,
+      COALESCE(cs.instructor_id = _instructor_id, false) AS same_instructor
+  ) m
+  WHERE cs.class_date = _class_date
+    AND cs.start_time < _end_time
+    AND cs.end_time > _start_time
+    AND cs.status NOT IN ('cancelled', 'postponed')
+    AND cs.id IS DISTINCT FROM _exclude_id
+    AND (same_room OR same_instructor)
+  ORDER BY cs.start_time;
+$$;
+
+-- Rejects bookings that clash with another class, naming the class in the way
+CREATE OR REPLACE FUNCTION public.validate_class_schedule()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _conflict record;
+BEGIN
+  IF NEW.status IN ('cancelled', 'postponed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Edits that leave the slot alone don't need checking, so classes that
+  -- already overlapped before this check existed can still be updated
+  IF TG_OP = 'UPDATE'
+     AND NEW.class_date = OLD.class_date
+     AND NEW.start_time = OLD.start_time
+     AND NEW.end_time = OLD.end_time
+     AND NEW.room_number IS NOT DISTINCT FROM OLD.room_number
+     AND NEW.instructor_id = OLD.instructor_id
+     AND OLD.status NOT IN ('cancelled', 'postponed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialise bookings for the day so two overlapping inserts can't both pass
+  PERFORM pg_advisory_xact_lock(hashtext('class_schedules:' || NEW.class_date::text));
+
+  SELECT * INTO _conflict
+  FROM public.find_class_schedule_conflicts(
+    NEW.class_date, NEW.start_time, NEW.end_time, NEW.room_number, NEW.instructor_id, NEW.id
+  )
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF _conflict.conflict = 'instructor' THEN
+      RAISE EXCEPTION '% is already teaching % (%) from % to %',
+        COALESCE(_conflict.instructor_name, 'The instructor'), _conflict.course_code,
+        _conflict.course_name, to_char(_conflict.start_time, 'HH24:MI'), to_char(_conflict.end_time, 'HH24:MI');
+    END IF;
+
+    RAISE EXCEPTION 'Room % is already booked for % (%) from % to %',
+      _conflict.room_number, _conflict.course_code, _conflict.course_name,
+      to_char(_conflict.start_time, 'HH24:MI'), to_char(_conflict.end_time, 'HH24:MI');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_class_schedules
+BEFORE INSERT OR UPDATE ON public.class_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_class_schedule();
@@ -0,0 +1,85 @@
+-- Rate limits, verifies and logs a verification request in one call. Attempts
+-- from the same address are serialised, so concurrent requests can't all pass
+-- the limit before any of them is logged.
+CREATE OR REPLACE FUNCTION public.record_certificate_verification(
+  _certificate_number text,
+  _ip_address text,
+  _user_agent text,
+  _rate_limit integer,
+  _window_seconds integer
+)
+RETURNS TABLE (
+  result text,
+  certificate_number text,
+  student_name text,
+  course_name text,
+  course_code text,
+  issue_date date,
+  revoked_at timestamp with time zone,
+  superseded_by_number text,
+  supersedes_number text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _number text := upper(btrim(_certificate_number));
+  _certificate record;
+  _result text;
+BEGIN
+  IF _ip_address IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('certificate_verifications:' || _ip_address));
+
+    IF (
+      SELECT count(*)
+      FROM public.certificate_verifications v
+      WHERE v.ip_address = _ip_address
+        AND v.created_at > now() - make_interval(secs => _window_seconds)
+    ) >= _rate_limit THEN
+      INSERT INTO public.certificate_verifications (certificate_number, result, ip_address, user_agent)
+      VALUES (_number, 'rate_limited', _ip_address, _user_agent);
+
+      RETURN QUERY SELECT 'rate_limited'::text, _number, NULL::text, NULL::text, NULL::text,
+        NULL::date, NULL::timestamp with time zone, NULL::text, NULL::text;
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT * INTO _certificate FROM public.verify_certificate(_number);
+
+  IF NOT FOUND THEN
+    _result := 'not_found';
+  ELSIF NOT _certificate.signature_valid THEN
+    _result := 'invalid_signature';
+  ELSIF _certificate.status = 'active' THEN
+    _result := 'valid';
+  ELSE
+    _result := _certificate.status;
+  END IF;
+
+  INSERT INTO public.certificate_verifications (certificate_number, result, ip_address, user_agent)
+  VALUES (_number, _result, _ip_address, _user_agent);
+
+  IF _result = 'not_found' THEN
+    RETURN QUERY SELECT _result, _number, NULL::text, NULL::text, NULL::text,
+      NULL::date, NULL::timestamp with time zone, NULL::text, NULL::text;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT
+    _result,
+    _certificate.certificate_number,
+    _certificate.student_name,
+    _certificate.course_name,
+    _certificate.course_code,
+    _certificate.issue_date,
+    _certificate.revoked_at,
+    _certificate.superseded_by_number,
+    _certificate.supersedes_number;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_certificate_verification(text, text, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_certificate_verification(text, text, text, integer, integer) TO service_role;
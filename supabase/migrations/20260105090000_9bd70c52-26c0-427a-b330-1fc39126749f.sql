@@ -0,0 +1,28 @@
+-- Client address as seen by the API gateway. Clients can send their own
+-- X-Forwarded-For, so only the entry the gateway appends (the rightmost) is
+-- trusted, and the proxy-set CF-Connecting-IP takes precedence when present.
+CREATE OR REPLACE FUNCTION public.request_ip()
+RETURNS inet
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _headers json := current_setting('request.headers', true)::json;
+  _connecting text;
+  _hops text[];
+BEGIN
+  _connecting := btrim(_headers ->> 'cf-connecting-ip');
+  IF _connecting IS NOT NULL AND _connecting <> '' THEN
+    RETURN _connecting::inet;
+  END IF;
+
+  _hops := string_to_array(_headers ->> 'x-forwarded-for', ',');
+  IF _hops IS NULL OR cardinality(_hops) = 0 THEN
+    RETURN NULL;
+  END IF;
+  RETURN btrim(_hops[cardinality(_hops)])::inet;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
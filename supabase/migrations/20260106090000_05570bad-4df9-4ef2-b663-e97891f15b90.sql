@@ -0,0 +1,111 @@
+-- The attendance audit trail covers every column staff change, not just the
+-- status, and outlives the session it belongs to
+ALTER TABLE public.attendance_audit_log
+ADD COLUMN changes jsonb,
+ADD COLUMN session_name text,
+ADD COLUMN session_date date;
+
+UPDATE public.attendance_audit_log l
+SET session_name = q.session_name,
+    session_date = q.session_date
+FROM public.qr_codes q
+WHERE q.id = l.qr_code_id;
+
+ALTER TABLE public.attendance_audit_log
+ALTER COLUMN qr_code_id DROP NOT NULL,
+DROP CONSTRAINT attendance_audit_log_qr_code_id_fkey,
+ADD CONSTRAINT attendance_audit_log_qr_code_id_fkey
+  FOREIGN KEY (qr_code_id) REFERENCES public.qr_codes(id) ON DELETE SET NULL;
+
+-- changes holds {column: {old, new}} for every column an update touched
+CREATE OR REPLACE FUNCTION public.log_attendance_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reason text := NULLIF(trim(current_setting('app.attendance_change_reason', true)), '');
+  _record public.attendance_records%ROWTYPE;
+  _session public.qr_codes%ROWTYPE;
+  _old_status text;
+  _changes jsonb;
+BEGIN
+  -- Check-ins by students and the absence job are not manual edits
+  IF auth.uid() IS NULL OR get_current_user_role() NOT IN ('admin', 'staff') THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value))
+    INTO _changes
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o USING (key)
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key <> 'updated_at';
+
+    IF _changes IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  IF _reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required when changing attendance';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    _record := OLD;
+  ELSE
+    _record := NEW;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    _old_status := OLD.status;
+  END IF;
+
+  SELECT * INTO _session FROM public.qr_codes WHERE id = _record.qr_code_id;
+
+  INSERT INTO public.attendance_audit_log (
+    attendance_record_id, qr_code_id, session_name, session_date, student_id,
+    action, old_status, new_status, changes, reason, changed_by
+  )
+  VALUES (
+    _record.id,
+    _session.id,
+    _session.session_name,
+    _session.session_date,
+    _record.student_id,
+    lower(TG_OP),
+    _old_status,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE _record.status END,
+    _changes,
+    _reason,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Remove a session's records while the session still exists, so their
+-- deletion is logged against it before the log's link is cleared
+CREATE OR REPLACE FUNCTION public.delete_session_attendance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NULLIF(trim(current_setting('app.attendance_change_reason', true)), '') IS NULL THEN
+    PERFORM set_config('app.attendance_change_reason', 'Session deleted', true);
+  END IF;
+
+  DELETE FROM public.attendance_records WHERE qr_code_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_qr_codes_attendance
+BEFORE DELETE ON public.qr_codes
+FOR EACH ROW
+EXECUTE FUNCTION public.delete_session_attendance();
@@ -0,0 +1,53 @@
+-- Sessions for a scheduled class close when the class ends in app_timezone(),
+-- the same way mark_attendance and mark_absent_students read schedule times,
+-- rather than whenever the creating browser thinks the class ends
+CREATE OR REPLACE FUNCTION public.set_class_session_expiry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _schedule public.class_schedules%ROWTYPE;
+BEGIN
+  IF NEW.class_schedule_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _schedule FROM public.class_schedules WHERE id = NEW.class_schedule_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class schedule not found';
+  END IF;
+
+  NEW.session_date := _schedule.class_date;
+  NEW.expires_at := (_schedule.class_date + _schedule.end_time) AT TIME ZONE public.app_timezone();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_qr_codes_class_expiry
+BEFORE INSERT OR UPDATE OF class_schedule_id ON public.qr_codes
+FOR EACH ROW
+EXECUTE FUNCTION public.set_class_session_expiry();
+
+-- Rescheduling a class moves the close time of its sessions with it
+CREATE OR REPLACE FUNCTION public.sync_class_session_expiry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.qr_codes
+  SET session_date = NEW.class_date,
+      expires_at = (NEW.class_date + NEW.end_time) AT TIME ZONE public.app_timezone()
+  WHERE class_schedule_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_class_schedules_session_expiry
+AFTER UPDATE OF class_date, end_time ON public.class_schedules
+FOR EACH ROW
+WHEN (NEW.class_date IS DISTINCT FROM OLD.class_date OR NEW.end_time IS DISTINCT FROM OLD.end_time)
+EXECUTE FUNCTION public.sync_class_session_expiry();
@@ -0,0 +1,40 @@
+-- A reissue keeps the original grade unless a corrected one is passed in
+CREATE OR REPLACE FUNCTION public.reissue_certificate(_certificate_id uuid, _reason text, _grade text DEFAULT NULL)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.certificates%ROWTYPE;
+  _replacement public.certificates%ROWTYPE;
+BEGIN
+  IF COALESCE(public.get_current_user_role(), '') NOT IN ('admin', 'staff') THEN
+    RAISE EXCEPTION 'Only staff can reissue certificates';
+  END IF;
+
+  SELECT * INTO _original FROM public.certificates WHERE id = _certificate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+
+  IF _original.status <> 'active' THEN
+    RAISE EXCEPTION 'This certificate has already been %', _original.status;
+  END IF;
+
+  INSERT INTO public.certificates (
+    student_id, course_id, grade, remarks, issued_by, barcode_data, template_id, supersedes_id
+  )
+  VALUES (
+    _original.student_id, _original.course_id, COALESCE(_grade, _original.grade), _original.remarks, auth.uid(), '',
+    _original.template_id, _original.id
+  )
+  RETURNING * INTO _replacement;
+
+  UPDATE public.certificates
+  SET status = 'superseded', revocation_reason = _reason
+  WHERE id = _original.id;
+
+  RETURN _replacement;
+END;
+$$;
@@ -0,0 +1,28 @@
+-- Exam durations use the same 15 to 300 minute range as the exam form.
+-- NOT VALID so exams created under the old range are left alone.
+ALTER TABLE public.exams DROP CONSTRAINT check_exam_duration_minutes;
+
+ALTER TABLE public.exams ADD CONSTRAINT check_exam_duration_minutes
+CHECK (duration_minutes BETWEEN 15 AND 300) NOT VALID;
+
+-- The default alone can be overridden by the client, so the creator is always
+-- the signed-in user and never changes afterwards
+CREATE OR REPLACE FUNCTION public.set_exam_created_by()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(auth.uid(), NEW.created_by);
+  ELSE
+    NEW.created_by := OLD.created_by;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_exams_created_by
+BEFORE INSERT OR UPDATE OF created_by ON public.exams
+FOR EACH ROW
+EXECUTE FUNCTION public.set_exam_created_by();
@@ -0,0 +1,231 @@
+-- How long after a session closes its open check-ins can still check out
+CREATE OR REPLACE FUNCTION public.session_checkout_window()
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT interval '1 hour'
+$$;
+
+-- Rotating sessions keep showing tokens through the check-out window
+CREATE OR REPLACE FUNCTION public.get_qr_rotation_token(_qr_code_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _qr public.qr_codes%ROWTYPE;
+  _epoch numeric := extract(epoch FROM now());
+  _window bigint;
+BEGIN
+  IF COALESCE(public.get_current_user_role(), '') NOT IN ('admin', 'staff') THEN
+    RAISE EXCEPTION 'Only staff can display attendance codes';
+  END IF;
+
+  SELECT * INTO _qr FROM public.qr_codes WHERE id = _qr_code_id;
+  IF NOT FOUND OR _qr.rotation_interval_seconds IS NULL THEN
+    RAISE EXCEPTION 'This session does not use rotating codes';
+  END IF;
+
+  IF _qr.expires_at IS NOT NULL AND _qr.expires_at + public.session_checkout_window() < now() THEN
+    RAISE EXCEPTION 'This session has expired';
+  END IF;
+
+  _window := floor(_epoch / _qr.rotation_interval_seconds);
+
+  RETURN jsonb_build_object(
+    'token', public.qr_rotation_token(_qr.rotation_secret, _window),
+    'expires_in', (_window + 1) * _qr.rotation_interval_seconds - _epoch
+  );
+END;
+$$;
+
+-- Students can leave a class shorter than the minimum check-in duration, and
+-- check out after the session closes, instead of being stuck checked in
+CREATE OR REPLACE FUNCTION public.mark_attendance(
+  _code text,
+  _notes text DEFAULT NULL,
+  _token text DEFAULT NULL,
+  _latitude double precision DEFAULT NULL,
+  _longitude double precision DEFAULT NULL,
+  _accuracy double precision DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _qr public.qr_codes%ROWTYPE;
+  _student_id uuid;
+  _record public.attendance_records%ROWTYPE;
+  _min_duration interval := interval '3 hours';
+  _now timestamp with time zone := now();
+  _grace_seconds integer := 10;
+  _window bigint;
+  _grace_window bigint;
+  _ip inet := public.request_ip();
+  _fence_reasons text[] := ARRAY[]::text[];
+  _fence_reason text;
+  _schedule public.class_schedules%ROWTYPE;
+  _status text := 'present';
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to mark attendance';
+  END IF;
+
+  SELECT * INTO _qr FROM public.qr_codes WHERE code = _code;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid QR code';
+  END IF;
+
+  SELECT id INTO _student_id FROM public.students WHERE user_id = auth.uid();
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Check-in/check-out is currently only available for students';
+  END IF;
+
+  -- A closed session takes no new check-ins, but students still inside it
+  -- can check out for a while after it closes
+  IF _qr.expires_at IS NOT NULL AND _qr.expires_at < _now THEN
+    IF _now > _qr.expires_at + public.session_checkout_window() OR NOT EXISTS (
+      SELECT 1 FROM public.attendance_records
+      WHERE qr_code_id = _qr.id
+        AND student_id = _student_id
+        AND check_in_time IS NOT NULL
+        AND check_out_time IS NULL
+    ) THEN
+      RAISE EXCEPTION 'This QR code has expired. Please get a new one.';
+    END IF;
+  END IF;
+
+  -- Rotating sessions only accept the token for the current window, or the
+  -- previous one while still inside the grace period
+  IF _qr.rotation_interval_seconds IS NOT NULL THEN
+    _window := floor(extract(epoch FROM _now) / _qr.rotation_interval_seconds);
+    _grace_window := floor((extract(epoch FROM _now) - _grace_seconds) / _qr.rotation_interval_seconds);
+
+    IF _token IS NULL OR _token NOT IN (
+      public.qr_rotation_token(_qr.rotation_secret, _window),
+      public.qr_rotation_token(_qr.rotation_secret, _grace_window)
+    ) THEN
+      RAISE EXCEPTION 'This QR code is no longer current. Please scan the code on screen again.';
+    END IF;
+  END IF;
+
+  IF _qr.qr_type = 'course' AND NOT public.is_enrolled_in_course(auth.uid(), _qr.course_id) THEN
+    RAISE EXCEPTION 'You are not enrolled in the course for this session';
+  END IF;
+
+  -- Location fence
+  IF _qr.location_radius_meters IS NOT NULL THEN
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      _fence_reasons := _fence_reasons || 'Location was not shared'::text;
+    ELSIF public.distance_meters(_qr.location_latitude, _qr.location_longitude, _latitude, _longitude)
+          > _qr.location_radius_meters THEN
+      _fence_reasons := _fence_reasons || format(
+        'Checked in %s m from the session location (allowed %s m)',
+        round(public.distance_meters(_qr.location_latitude, _qr.location_longitude, _latitude, _longitude)),
+        _qr.location_radius_meters
+      );
+    END IF;
+  END IF;
+
+  -- Network fence
+  IF _qr.allowed_ip_range IS NOT NULL AND (_ip IS NULL OR NOT _ip <<= _qr.allowed_ip_range) THEN
+    _fence_reasons := _fence_reasons || format('Checked in from outside the allowed network (%s)', COALESCE(host(_ip), 'unknown address'));
+  END IF;
+
+  _fence_reason := NULLIF(array_to_string(_fence_reasons, '; '), '');
+
+  IF _fence_reason IS NOT NULL AND _qr.fence_enforcement = 'reject' THEN
+    RAISE EXCEPTION 'Attendance rejected: %', _fence_reason;
+  END IF;
+
+  -- Sessions tied to a scheduled class mark students late after the grace
+  -- period, and classes shorter than the minimum only need to be sat through
+  IF _qr.class_schedule_id IS NOT NULL THEN
+    SELECT * INTO _schedule FROM public.class_schedules WHERE id = _qr.class_schedule_id;
+    IF FOUND THEN
+      IF _now > ((_schedule.class_date + _schedule.start_time) AT TIME ZONE public.app_timezone())
+                + make_interval(mins => _schedule.late_grace_minutes) THEN
+        _status := 'late';
+      END IF;
+      _min_duration := LEAST(_min_duration, _schedule.end_time - _schedule.start_time);
+    END IF;
+  END IF;
+
+  -- Serialise concurrent scans by the same student for the same session
+  PERFORM pg_advisory_xact_lock(hashtext(_qr.id::text || ':' || _student_id::text));
+
+  SELECT * INTO _record
+  FROM public.attendance_records
+  WHERE qr_code_id = _qr.id AND student_id = _student_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.attendance_records (
+      qr_code_id, student_id, check_in_time, status, notes,
+      check_in_latitude, check_in_longitude, check_in_accuracy_meters, check_in_ip,
+      flagged, flag_reason
+    )
+    VALUES (
+      _qr.id, _student_id, _now, _status, NULLIF(trim(_notes), ''),
+      _latitude, _longitude, _accuracy, _ip,
+      _fence_reason IS NOT NULL, _fence_reason
+    )
+    RETURNING * INTO _record;
+
+    RETURN jsonb_build_object(
+      'action', 'check_in',
+      'session_name', _qr.session_name,
+      'check_in_time', _record.check_in_time,
+      'check_out_after', _record.check_in_time + _min_duration,
+      'status', _record.status,
+      'flagged', _record.flagged,
+      'flag_reason', _record.flag_reason
+    );
+  END IF;
+
+  IF _record.check_in_time IS NULL THEN
+    IF _record.status = 'absent' THEN
+      RAISE EXCEPTION 'You have been marked absent for this session';
+    ELSIF _record.status = 'excused' THEN
+      RAISE EXCEPTION 'You have been excused from this session';
+    END IF;
+    RAISE EXCEPTION 'Your instructor has already marked you % for this session', _record.status;
+  END IF;
+
+  IF _record.check_out_time IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already completed your attendance for this session';
+  END IF;
+
+  IF _now - _record.check_in_time < _min_duration THEN
+    RAISE EXCEPTION 'You must wait at least % hours before checking out. % hours remaining.',
+      round(extract(epoch FROM _min_duration) / 3600, 1),
+      round(extract(epoch FROM (_min_duration - (_now - _record.check_in_time))) / 3600, 1);
+  END IF;
+
+  UPDATE public.attendance_records
+  SET check_out_time = _now,
+      notes = COALESCE(NULLIF(trim(_notes), ''), notes),
+      flagged = flagged OR _fence_reason IS NOT NULL,
+      flag_reason = CASE
+        WHEN _fence_reason IS NULL THEN flag_reason
+        ELSE concat_ws('; ', flag_reason, 'Check-out: ' || _fence_reason)
+      END
+  WHERE id = _record.id
+  RETURNING * INTO _record;
+
+  RETURN jsonb_build_object(
+    'action', 'check_out',
+    'session_name', _qr.session_name,
+    'check_in_time', _record.check_in_time,
+    'check_out_time', _record.check_out_time,
+    'duration_hours', round(extract(epoch FROM (_record.check_out_time - _record.check_in_time)) / 3600, 1),
+    'flagged', _record.flagged,
+    'flag_reason', _record.flag_reason
+  );
+END;
+$$;